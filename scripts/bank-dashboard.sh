@@ -3,6 +3,10 @@
 # Interactive Bank Sync Dashboard
 
 API_URL="http://192.168.1.11:4010"
+API_KEY="${API_KEY:-}" # Create one with POST /v1/api-keys
+
+# Authenticate every API call
+curl() { command curl -H "X-API-Key: $API_KEY" "$@"; }
 NAS_HOST="k2600x@192.168.1.11"
 
 # Colors
@@ -7,6 +7,10 @@ set -e
 
 # Configuration
 API_BASE="http://192.168.1.11:4010/v1"
+API_KEY="${API_KEY:-}" # Create one with POST /v1/api-keys
+
+# Authenticate every API call
+curl() { command curl -H "X-API-Key: $API_KEY" "$@"; }
 COUNTRY_CODE="${GC_COUNTRY:-ES}"
 
 # Colors
@@ -3,6 +3,10 @@
 # Quick start script for GoCardless bank sync
 
 API_URL="http://192.168.1.11:4010"
+API_KEY="${API_KEY:-}" # Create one with POST /v1/api-keys
+
+# Authenticate every API call
+curl() { command curl -H "X-API-Key: $API_KEY" "$@"; }
 
 # Colors
 GREEN='\033[0;32m'
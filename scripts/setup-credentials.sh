@@ -5,6 +5,10 @@
 NAS_HOST="k2600x@192.168.1.11"
 NAS_PATH="/volume1/docker/bank-sync-service"
 API_URL="http://192.168.1.11:4010"
+API_KEY="${API_KEY:-}" # Create one with POST /v1/api-keys
+
+# Authenticate every API call
+curl() { command curl -H "X-API-Key: $API_KEY" "$@"; }
 
 # Colors
 RED='\033[0;31m'
@@ -3,6 +3,10 @@
 # Automated test script for complete GoCardless flow after credentials setup
 
 API_URL="http://192.168.1.11:4010"
+API_KEY="${API_KEY:-}" # Create one with POST /v1/api-keys
+
+# Authenticate every API call
+curl() { command curl -H "X-API-Key: $API_KEY" "$@"; }
 REDIRECT_URL="http://localhost:4010/v1/requisitions/callback"
 
 # Colors
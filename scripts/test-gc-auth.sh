@@ -3,6 +3,10 @@
 # Quick test script to verify GoCardless credentials are working
 
 API_BASE="http://192.168.1.11:4010/v1"
+API_KEY="${API_KEY:-}" # Create one with POST /v1/api-keys
+
+# Authenticate every API call
+curl() { command curl -H "X-API-Key: $API_KEY" "$@"; }
 
 # Colors
 RED='\033[0;31m'
@@ -21,15 +21,63 @@ const configSchema = z.object({
     secretId: z.string(),
     secretKey: z.string(),
     webhookSecret: z.string().optional(),
+    webhookPreviousSecrets: z.array(z.string()).default([]), // Still accepted during a rotation
+    webhookToleranceSeconds: z.number().min(0).default(300), // 0 disables the timestamp check and accepts untimestamped deliveries
     provider: z.string().default('gocardless'),
     redirectUrl: z.string(),
-    countryCode: z.string().default('ES'),
+    countryCodes: z.array(z.string().length(2)).min(1).default(['ES']), // Institutions listed by default
+  }),
+  
+  providers: z.object({
+    default: z.string().default('gocardless'),
+  }),
+  
+  auth: z.object({
+    enabled: z.boolean().default(true),
+    adminKey: z.string().optional(), // Bootstrap admin key, used to create API keys
   }),
   
   sync: z.object({
     defaultLookbackDays: z.number().default(90),
     maxTransactionsPerSync: z.number().default(1000),
     lockTtlSeconds: z.number().default(900), // 15 minutes
+    overlapDays: z.number().min(0).default(3),
+    deepScanDays: z.number().min(1).default(30),
+    deepScanIntervalDays: z.number().min(0).default(7), // 0 disables deep re-scans
+    backfillChunkDays: z.number().min(1).default(30),
+  }),
+  
+  callback: z.object({
+    stateSecret: z.string().optional(), // Signs callback state; derived from GC_SECRET_KEY if unset
+    returnUrl: z.string().url().optional(), // Default frontend page after linking
+    returnOrigins: z.array(z.string()).default([]), // Other origins a returnUrl may point to
+  }),
+  
+  requisitions: z.object({
+    pendingTtlHours: z.number().min(1).default(24), // Unfinished requisitions are deleted after this
+    reconcileIntervalMinutes: z.number().min(1).default(60), // Status polling of non-final requisitions
+  }),
+  
+  reconciliation: z.object({
+    intervalHours: z.number().min(1).default(24),
+    lookbackDays: z.number().min(2).default(30), // Window re-checked on every run
+    tolerance: z.number().min(0).default(0.01), // Largest difference still treated as a match
+  }),
+  
+  fx: z.object({
+    source: z.string().default('file'), // Registered FxRateSource used for conversions
+    ratesFile: z.string().default('data/fx-rates.json'),
+    baseCurrency: z.string().length(3).default('EUR'), // Portfolio currency when none is requested
+  }),
+  
+  consent: z.object({
+    notifyDays: z.array(z.number().min(1)).default([7, 3, 1]), // Days before expiry to notify
+    checkIntervalHours: z.number().min(1).default(6),
+  }),
+  
+  webhooks: z.object({
+    maxAttempts: z.number().min(1).default(5), // Then the event is dead-lettered
+    retryBaseSeconds: z.number().min(1).default(30), // Doubled on every failed attempt
   }),
 });
 
@@ -53,15 +101,78 @@ const rawConfig = {
     secretId: process.env.GC_SECRET_ID || '',
     secretKey: process.env.GC_SECRET_KEY || '',
     webhookSecret: process.env.GC_WEBHOOK_SECRET,
+    webhookPreviousSecrets: (process.env.GC_WEBHOOK_PREVIOUS_SECRETS || '')
+      .split(',')
+      .map(secret => secret.trim())
+      .filter(Boolean),
+    webhookToleranceSeconds: process.env.GC_WEBHOOK_TOLERANCE_SECONDS
+      ? Number(process.env.GC_WEBHOOK_TOLERANCE_SECONDS)
+      : 300,
     provider: process.env.GC_PROVIDER || 'gocardless',
     redirectUrl: process.env.GC_REDIRECT_URL || 'http://localhost:4010/v1/requisitions/callback',
-    countryCode: process.env.GC_COUNTRY_CODE || 'ES',
+    countryCodes: (process.env.GC_COUNTRY_CODE || 'ES')
+      .split(',')
+      .map(country => country.trim().toUpperCase())
+      .filter(Boolean),
+  },
+  
+  providers: {
+    default: process.env.DEFAULT_PROVIDER || process.env.GC_PROVIDER || 'gocardless',
+  },
+  
+  auth: {
+    enabled: process.env.API_AUTH_ENABLED !== 'false',
+    adminKey: process.env.API_ADMIN_KEY || undefined,
   },
   
   sync: {
     defaultLookbackDays: Number(process.env.SYNC_LOOKBACK_DAYS) || 90,
     maxTransactionsPerSync: Number(process.env.MAX_TRANSACTIONS_PER_SYNC) || 1000,
     lockTtlSeconds: Number(process.env.LOCK_TTL_SECONDS) || 900,
+    overlapDays: process.env.SYNC_OVERLAP_DAYS ? Number(process.env.SYNC_OVERLAP_DAYS) : 3,
+    deepScanDays: Number(process.env.SYNC_DEEP_SCAN_DAYS) || 30,
+    deepScanIntervalDays: process.env.SYNC_DEEP_SCAN_INTERVAL_DAYS
+      ? Number(process.env.SYNC_DEEP_SCAN_INTERVAL_DAYS)
+      : 7,
+    backfillChunkDays: Number(process.env.BACKFILL_CHUNK_DAYS) || 30,
+  },
+  
+  callback: {
+    stateSecret: process.env.CALLBACK_STATE_SECRET || undefined,
+    returnUrl: process.env.CALLBACK_RETURN_URL || undefined,
+    returnOrigins: (process.env.CALLBACK_RETURN_ORIGINS || '')
+      .split(',')
+      .map(origin => origin.trim().replace(/\/+$/, ''))
+      .filter(Boolean),
+  },
+  
+  requisitions: {
+    pendingTtlHours: Number(process.env.REQUISITION_PENDING_TTL_HOURS) || 24,
+    reconcileIntervalMinutes: Number(process.env.REQUISITION_RECONCILE_INTERVAL_MINUTES) || 60,
+  },
+  
+  reconciliation: {
+    intervalHours: Number(process.env.RECONCILIATION_INTERVAL_HOURS) || 24,
+    lookbackDays: Number(process.env.RECONCILIATION_LOOKBACK_DAYS) || 30,
+    tolerance: process.env.RECONCILIATION_TOLERANCE ? Number(process.env.RECONCILIATION_TOLERANCE) : 0.01,
+  },
+  
+  fx: {
+    source: process.env.FX_SOURCE || 'file',
+    ratesFile: process.env.FX_RATES_FILE || 'data/fx-rates.json',
+    baseCurrency: (process.env.FX_BASE_CURRENCY || 'EUR').toUpperCase(),
+  },
+  
+  consent: {
+    notifyDays: process.env.CONSENT_NOTIFY_DAYS
+      ? process.env.CONSENT_NOTIFY_DAYS.split(',').map(Number).filter(days => days > 0)
+      : [7, 3, 1],
+    checkIntervalHours: Number(process.env.CONSENT_CHECK_INTERVAL_HOURS) || 6,
+  },
+  
+  webhooks: {
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5,
+    retryBaseSeconds: Number(process.env.WEBHOOK_RETRY_BASE_SECONDS) || 30,
   },
 };
 
@@ -8,8 +8,19 @@ import auth from './routes/auth';
 import requisitions from './routes/requisitions';
 import balance from './routes/balance';
 import notifications from './routes/notifications';
+import transactions from './routes/transactions';
+import apiKeys from './routes/apiKeys';
+import webhooks from './routes/webhooks';
+import portfolio from './routes/portfolio';
 import { initRedis, closeRedis } from './lib/redis';
+import { initDatabase, closeDatabase, getDb, isDatabaseEnabled } from './lib/db';
 import { getScheduler } from './lib/scheduler';
+import { startWebhookWorker, stopWebhookWorker } from './workers/webhookWorker';
+import { registerProvider } from './lib/provider';
+import { getGCClient } from './lib/gcClient';
+import { FileFxRateSource, registerFxSource } from './lib/fx';
+import { authenticate } from './lib/apiKeys';
+import { filterAccessibleAccounts } from './lib/tenancy';
 import { config } from './config';
 import { logger } from './logger';
 
@@ -18,6 +29,15 @@ async function bootstrap() {
   await initRedis();
   logger.info('Redis initialized');
 
+  // Initialize durable store (runs migrations)
+  await initDatabase();
+
+  // Register bank providers
+  registerProvider(getGCClient());
+
+  // Register exchange rate sources
+  registerFxSource(new FileFxRateSource(config.fx.ratesFile));
+
   // Create Fastify instance
   const app = Fastify({
     logger: logger as any,
@@ -36,13 +56,30 @@ async function bootstrap() {
     contentSecurityPolicy: false,
   });
 
+  // API key authentication (routes declare their scope in config.scope)
+  if (config.auth.enabled) {
+    if (!config.auth.adminKey) {
+      logger.warn('API_ADMIN_KEY not set: only keys already stored in Redis can authenticate');
+    }
+  } else {
+    logger.warn('API authentication disabled (API_AUTH_ENABLED=false)');
+  }
+  app.addHook('preHandler', authenticate);
+
   // Health checks
-  app.get('/health', async () => ({ ok: true, service: 'bank-sync-service' }));
-  app.get('/ready', async () => {
+  app.get('/health', { config: { scope: 'public' } }, async () => ({ ok: true, service: 'bank-sync-service' }));
+  app.get('/ready', { config: { scope: 'public' } }, async () => {
     try {
       const redis = await initRedis();
       await redis.ping();
-      return { ok: true, redis: 'connected' };
+      if (isDatabaseEnabled()) {
+        await getDb().query('SELECT 1');
+      }
+      return {
+        ok: true,
+        redis: 'connected',
+        database: isDatabaseEnabled() ? 'connected' : 'disabled',
+      };
     } catch (err) {
       logger.error({ err }, 'Readiness check failed');
       throw err;
@@ -54,9 +91,13 @@ async function bootstrap() {
   await app.register(requisitions, { prefix: '/v1' });
   await app.register(accounts, { prefix: '/v1' });
   await app.register(balance, { prefix: '/v1' });
+  await app.register(transactions, { prefix: '/v1' });
   await app.register(sync, { prefix: '/v1' });
   await app.register(webhook, { prefix: '/v1' });
   await app.register(notifications, { prefix: '/v1' });
+  await app.register(apiKeys, { prefix: '/v1' });
+  await app.register(webhooks, { prefix: '/v1' });
+  await app.register(portfolio, { prefix: '/v1' });
 
   // Error handler
   app.setErrorHandler((error, request, reply) => {
@@ -82,8 +123,10 @@ async function bootstrap() {
       logger.info({ signal }, 'Shutting down gracefully');
       try {
         await scheduler.stop();
+        await stopWebhookWorker();
         await app.close();
         await closeRedis();
+        await closeDatabase();
         process.exit(0);
       } catch (err) {
         logger.error({ err }, 'Error during shutdown');
@@ -96,11 +139,19 @@ async function bootstrap() {
   const scheduler = getScheduler();
   await scheduler.start();
   logger.info('Smart scheduler started');
+
+  // Process received webhook events
+  await startWebhookWorker();
   
   // Add scheduler status endpoint
-  app.get('/v1/scheduler/status', async () => {
+  app.get('/v1/scheduler/status', async (request) => {
     const status = await scheduler.getQueueStatus();
-    return status;
+    const userId = request.apiKey?.userId;
+    if (!userId) return status;
+
+    // User-scoped keys only see their own accounts
+    const owned = new Set(await filterAccessibleAccounts(userId, status.accounts.map(a => a.accountId)));
+    return { ...status, accounts: status.accounts.filter(a => owned.has(a.accountId)) };
   });
   
   // Add endpoint to schedule sync
@@ -0,0 +1,97 @@
+import { AccountRecord } from './repository';
+
+const strings = new Map<string, string>();
+const records = new Map<string, AccountRecord>();
+const upsertAccount = jest.fn();
+let databaseEnabled = true;
+
+// Just the commands details use
+const fakeRedis = {
+  get: async (key: string) => strings.get(key) ?? null,
+  set: async (key: string, value: string) => {
+    strings.set(key, value);
+    return 'OK';
+  },
+};
+
+jest.mock('./redis', () => ({ getRedis: () => fakeRedis }));
+jest.mock('./provider', () => ({}));
+jest.mock('./accountIdentity', () => ({ resolveAccountId: async (id: string) => (id === 'acc-new' ? 'acc-old' : id) }));
+jest.mock('./db', () => ({ isDatabaseEnabled: () => databaseEnabled }));
+jest.mock('./repository', () => ({
+  getAccountRecord: async (id: string) => records.get(id) ?? null,
+  upsertAccount: (...args: unknown[]) => upsertAccount(...args),
+}));
+jest.mock('../logger', () => ({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { getStoredAccountDetails, needsDetailsRefresh, saveAccountDetails } from './accountDetails';
+
+describe('account details', () => {
+  beforeEach(() => {
+    strings.clear();
+    records.clear();
+    upsertAccount.mockReset();
+    databaseEnabled = true;
+    jest.useFakeTimers().setSystemTime(new Date('2024-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores details under the internal ID in Redis and the account row', async () => {
+    await saveAccountDetails('acc-new', 'gocardless', { iban: 'ES9121000418450200051332', displayName: 'Main', currency: 'EUR' });
+
+    expect(await getStoredAccountDetails('acc-old')).toEqual({
+      iban: 'ES9121000418450200051332',
+      displayName: 'Main',
+      currency: 'EUR',
+      fetchedAt: '2024-03-01T12:00:00.000Z',
+    });
+    expect(upsertAccount).toHaveBeenCalledWith(expect.objectContaining({
+      accountId: 'acc-old',
+      provider: 'gocardless',
+      name: 'Main',
+      detailsFetchedAt: '2024-03-01T12:00:00.000Z',
+    }));
+  });
+
+  it('falls back to the account row and puts it back in Redis', async () => {
+    records.set('acc-old', {
+      accountId: 'acc-old',
+      provider: 'gocardless',
+      name: 'Main',
+      ownerName: 'Jane Doe',
+      currency: 'EUR',
+      detailsFetchedAt: '2024-02-01T00:00:00.000Z',
+    });
+
+    expect(await getStoredAccountDetails('acc-new')).toMatchObject({
+      name: 'Main',
+      ownerName: 'Jane Doe',
+      fetchedAt: '2024-02-01T00:00:00.000Z',
+    });
+    records.clear();
+    expect(await getStoredAccountDetails('acc-new')).toMatchObject({ name: 'Main' });
+  });
+
+  it('has no details for rows never filled by a fetch or without a database', async () => {
+    records.set('acc-1', { accountId: 'acc-1', provider: 'gocardless', iban: 'ES9121000418450200051332' });
+    expect(await getStoredAccountDetails('acc-1')).toBeNull();
+
+    databaseEnabled = false;
+    records.set('acc-2', { accountId: 'acc-2', provider: 'gocardless', detailsFetchedAt: '2024-02-01T00:00:00.000Z' });
+    expect(await getStoredAccountDetails('acc-2')).toBeNull();
+  });
+
+  it('refreshes details that are missing or older than 30 days', async () => {
+    expect(await needsDetailsRefresh('acc-1')).toBe(true);
+
+    await saveAccountDetails('acc-1', 'gocardless', { currency: 'EUR' });
+    jest.setSystemTime(new Date('2024-03-31T12:00:00Z'));
+    expect(await needsDetailsRefresh('acc-1')).toBe(false);
+
+    jest.setSystemTime(new Date('2024-03-31T12:00:00.001Z'));
+    expect(await needsDetailsRefresh('acc-1')).toBe(true);
+  });
+});
@@ -0,0 +1,87 @@
+import { getRedis } from './redis';
+import { ProviderAccountDetails } from './provider';
+import { resolveAccountId } from './accountIdentity';
+import { isDatabaseEnabled } from './db';
+import { getAccountRecord, upsertAccount } from './repository';
+import { logger } from '../logger';
+
+const DETAILS_PREFIX = 'bank:account:details:'; // Internal account ID -> latest details
+const DETAILS_REFRESH_DAYS = 30; // Details rarely change; fetched again after this
+
+export interface AccountDetails extends ProviderAccountDetails {
+  fetchedAt: string;
+}
+
+/**
+ * Store freshly fetched details under the account's internal ID, in Redis
+ * and in the durable store's account row
+ */
+export async function saveAccountDetails(
+  accountId: string,
+  provider: string,
+  details: ProviderAccountDetails
+): Promise<AccountDetails> {
+  const internalId = await resolveAccountId(accountId);
+  const stored: AccountDetails = { ...details, fetchedAt: new Date().toISOString() };
+
+  const redis = getRedis();
+  await redis.set(`${DETAILS_PREFIX}${internalId}`, JSON.stringify(stored));
+
+  await upsertAccount({
+    accountId: internalId,
+    provider,
+    iban: details.iban,
+    ownerName: details.ownerName,
+    currency: details.currency,
+    name: details.name || details.displayName,
+    product: details.product,
+    cashAccountType: details.cashAccountType,
+    bban: details.bban,
+    detailsFetchedAt: stored.fetchedAt,
+  });
+
+  logger.info({ accountId, internalId }, 'Account details stored');
+
+  return stored;
+}
+
+/**
+ * Last fetched details of an account (null if never fetched). Falls back to
+ * the durable store when Redis lost them.
+ */
+export async function getStoredAccountDetails(accountId: string): Promise<AccountDetails | null> {
+  const internalId = await resolveAccountId(accountId);
+  const redis = getRedis();
+
+  const cached = await redis.get(`${DETAILS_PREFIX}${internalId}`);
+  if (cached) return JSON.parse(cached) as AccountDetails;
+
+  if (!isDatabaseEnabled()) return null;
+
+  const record = await getAccountRecord(internalId);
+  if (!record?.detailsFetchedAt) return null;
+
+  const details: AccountDetails = {
+    name: record.name,
+    ownerName: record.ownerName,
+    product: record.product,
+    cashAccountType: record.cashAccountType,
+    currency: record.currency,
+    iban: record.iban,
+    bban: record.bban,
+    fetchedAt: record.detailsFetchedAt,
+  };
+  await redis.set(`${DETAILS_PREFIX}${internalId}`, JSON.stringify(details));
+
+  return details;
+}
+
+/**
+ * Whether an account's details are missing or older than the refresh period
+ */
+export async function needsDetailsRefresh(accountId: string): Promise<boolean> {
+  const details = await getStoredAccountDetails(accountId);
+  if (!details) return true;
+
+  return Date.now() - new Date(details.fetchedAt).getTime() > DETAILS_REFRESH_DAYS * 24 * 60 * 60 * 1000;
+}
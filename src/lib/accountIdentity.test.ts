@@ -0,0 +1,121 @@
+const strings = new Map<string, string>();
+const sortedSets = new Map<string, Map<string, number>>();
+const owners = new Map<string, string>();
+const reassignAccountHistory = jest.fn();
+
+function sortedSet(key: string): Map<string, number> {
+  if (!sortedSets.has(key)) sortedSets.set(key, new Map());
+  return sortedSets.get(key)!;
+}
+
+function byScore(key: string): string[] {
+  return [...sortedSet(key)].sort((a, b) => a[1] - b[1]).map(([member]) => member);
+}
+
+// Just the commands identities use
+const fakeRedis = {
+  get: async (key: string) => strings.get(key) ?? null,
+  set: async (key: string, value: string, ...args: unknown[]) => {
+    if (args.includes('NX') && strings.has(key)) return null;
+    strings.set(key, value);
+    return 'OK';
+  },
+  zadd: async (key: string, score: number, member: string) => {
+    sortedSet(key).set(member, score);
+    return 1;
+  },
+  zrange: async (key: string) => byScore(key),
+  zrevrange: async (key: string) => byScore(key).reverse().slice(0, 1),
+};
+
+jest.mock('./redis', () => ({ getRedis: () => fakeRedis }));
+jest.mock('./tenancy', () => ({
+  getAccountOwner: async (id: string) => owners.get(id) ?? null,
+  setAccountOwner: async (id: string, userId: string) => {
+    owners.set(id, userId);
+  },
+}));
+jest.mock('./cursor', () => ({
+  getCursor: async () => null,
+  setCursor: async () => undefined,
+  deleteCursor: async () => undefined,
+}));
+jest.mock('./pending', () => ({ getPendingTransactions: async () => new Map() }));
+jest.mock('./provider', () => ({}));
+jest.mock('./repository', () => ({
+  reassignAccountHistory: (...args: unknown[]) => reassignAccountHistory(...args),
+}));
+jest.mock('../logger', () => ({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import {
+  getCurrentProviderAccountId,
+  listProviderAccountIds,
+  registerAccountIdentity,
+  resolveAccountId,
+} from './accountIdentity';
+
+const IBAN = 'ES91 2100 0418 4502 0005 1332';
+
+describe('registerAccountIdentity', () => {
+  let now: number;
+
+  beforeEach(() => {
+    strings.clear();
+    sortedSets.clear();
+    owners.clear();
+    reassignAccountHistory.mockReset();
+    now = Date.parse('2024-03-01T00:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps a re-linked ID onto the first ID for the IBAN and moves its history', async () => {
+    owners.set('acc-1', 'user-1');
+    owners.set('acc-2', 'user-1');
+
+    expect(await registerAccountIdentity('acc-1', 'BANK_ID', IBAN)).toBe('acc-1');
+    expect(await registerAccountIdentity('acc-2', 'BANK_ID', IBAN.replace(/\s/g, ''))).toBe('acc-1');
+
+    expect(await resolveAccountId('acc-2')).toBe('acc-1');
+    expect(await listProviderAccountIds('acc-1')).toEqual(['acc-1', 'acc-2']);
+    expect(await getCurrentProviderAccountId('acc-1')).toBe('acc-2');
+    expect(reassignAccountHistory).toHaveBeenCalledWith('acc-2', 'acc-1');
+  });
+
+  it("keeps another user's link of the same IBAN separate", async () => {
+    owners.set('acc-1', 'user-1');
+    owners.set('acc-2', 'user-2');
+
+    await registerAccountIdentity('acc-1', 'BANK_ID', IBAN);
+    expect(await registerAccountIdentity('acc-2', 'BANK_ID', IBAN)).toBe('acc-2');
+
+    expect(await getCurrentProviderAccountId('acc-1')).toBe('acc-1');
+    expect(reassignAccountHistory).not.toHaveBeenCalled();
+  });
+
+  it('adopts an identity registered before keys carried the owner, for the same user only', async () => {
+    strings.set('bank:identity:BANK_ID:ES9121000418450200051332', 'acc-1');
+    owners.set('acc-1', 'user-1');
+    owners.set('acc-2', 'user-2');
+    owners.set('acc-3', 'user-1');
+
+    expect(await registerAccountIdentity('acc-2', 'BANK_ID', IBAN)).toBe('acc-2');
+    expect(await registerAccountIdentity('acc-3', 'BANK_ID', IBAN)).toBe('acc-1');
+  });
+
+  it("does not merge an unowned account into a user's history", async () => {
+    owners.set('acc-1', 'user-1');
+    strings.set('bank:identity:BANK_ID:ES9121000418450200051332', 'acc-1');
+
+    expect(await registerAccountIdentity('acc-2', 'BANK_ID', IBAN)).toBe('acc-2');
+    expect(reassignAccountHistory).not.toHaveBeenCalled();
+  });
+
+  it('keeps an account without an IBAN as its own identity', async () => {
+    expect(await registerAccountIdentity('acc-1', 'BANK_ID', undefined)).toBe('acc-1');
+    expect(await registerAccountIdentity('acc-2', 'BANK_ID', undefined)).toBe('acc-2');
+  });
+});
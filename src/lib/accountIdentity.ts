@@ -0,0 +1,151 @@
+import { getRedis } from './redis';
+import { deleteCursor, getCursor, setCursor } from './cursor';
+import { getPendingTransactions, removePendingTransaction, savePendingTransaction } from './pending';
+import { getAccountProvider } from './provider';
+import { reassignAccountHistory } from './repository';
+import { getAccountOwner, setAccountOwner } from './tenancy';
+import { logger } from '../logger';
+
+const IDENTITY_PREFIX = 'bank:identity:'; // [<owner>:]<institutionId>:<IBAN> -> internal account ID
+const INTERNAL_ID_PREFIX = 'bank:account:internal:'; // Provider account ID -> internal ID
+const PROVIDER_IDS_PREFIX = 'bank:account:provider-ids:'; // Internal ID -> provider IDs by link time
+
+/*
+ * Banks re-issue account IDs when consent is renewed. Cursors, pending
+ * entries, txIds and stored history are keyed on a stable internal ID: the
+ * first provider account ID seen for an IBAN at an institution by the same
+ * owner. Later IDs for the same IBAN resolve to it; provider calls use the
+ * newest one. Two users linking a shared account keep separate identities.
+ */
+
+function identityKey(owner: string | null, institutionId: string, iban: string): string {
+  const account = `${institutionId}:${iban.replace(/\s/g, '').toUpperCase()}`;
+  return `${IDENTITY_PREFIX}${owner ? `${owner}:${account}` : account}`;
+}
+
+/**
+ * Internal ID of an account (the ID itself if it was never re-linked)
+ */
+export async function resolveAccountId(accountId: string): Promise<string> {
+  const redis = getRedis();
+  return (await redis.get(`${INTERNAL_ID_PREFIX}${accountId}`)) || accountId;
+}
+
+/**
+ * Provider account IDs an internal account was known by, oldest first
+ */
+export async function listProviderAccountIds(internalId: string): Promise<string[]> {
+  const redis = getRedis();
+  const ids = await redis.zrange(`${PROVIDER_IDS_PREFIX}${internalId}`, 0, -1);
+  return ids.length > 0 ? ids : [internalId];
+}
+
+/**
+ * Provider account ID to call the provider with (the most recently linked)
+ */
+export async function getCurrentProviderAccountId(internalId: string): Promise<string> {
+  const redis = getRedis();
+  const [latest] = await redis.zrevrange(`${PROVIDER_IDS_PREFIX}${internalId}`, 0, 0);
+  return latest || internalId;
+}
+
+/**
+ * Record which IBAN/institution a provider account ID belongs to. A new ID
+ * for an IBAN its owner already linked is mapped to the existing internal ID
+ * and whatever was stored under it is moved over. Returns the internal ID.
+ */
+export async function registerAccountIdentity(
+  providerAccountId: string,
+  institutionId: string | undefined,
+  iban: string | undefined
+): Promise<string> {
+  const redis = getRedis();
+  const known = await redis.get(`${INTERNAL_ID_PREFIX}${providerAccountId}`);
+  if (known) return known;
+
+  // Without an IBAN the account is its own identity
+  let internalId = providerAccountId;
+  if (institutionId && iban) {
+    const owner = await getAccountOwner(providerAccountId);
+    const key = identityKey(owner, institutionId, iban);
+    if (owner && !(await redis.get(key))) {
+      // Registered before identity keys carried the owner
+      const legacyId = await redis.get(identityKey(null, institutionId, iban));
+      if (legacyId && (await getAccountOwner(legacyId)) === owner) {
+        await redis.set(key, legacyId, 'NX');
+      }
+    }
+    await redis.set(key, providerAccountId, 'NX');
+
+    // Never merge into another user's history (e.g. an account reassigned since)
+    const existing = await redis.get(key);
+    if (existing && (await getAccountOwner(existing)) === owner) {
+      internalId = existing;
+    }
+  }
+
+  await redis.zadd(`${PROVIDER_IDS_PREFIX}${internalId}`, Date.now(), providerAccountId);
+  await redis.set(`${INTERNAL_ID_PREFIX}${providerAccountId}`, internalId);
+
+  if (internalId !== providerAccountId) {
+    await migrateAccountState(providerAccountId, internalId);
+    logger.info({ providerAccountId, internalId, institutionId }, 'Re-linked account mapped to existing identity');
+  }
+
+  return internalId;
+}
+
+/**
+ * Internal ID of an account, looking its IBAN up with the provider the first
+ * time an ID is seen. Falls back to the ID itself if the lookup fails.
+ */
+export async function identifyAccount(accountId: string): Promise<string> {
+  const redis = getRedis();
+  const known = await redis.get(`${INTERNAL_ID_PREFIX}${accountId}`);
+  if (known) return known;
+
+  try {
+    const provider = await getAccountProvider(accountId);
+    const account = await provider.getAccount(accountId);
+    if (!account) return accountId;
+
+    return await registerAccountIdentity(accountId, account.institutionId, account.iban);
+  } catch (err) {
+    logger.warn({ err, accountId }, 'Failed to identify account');
+    return accountId;
+  }
+}
+
+/**
+ * Move state stored under a provider ID (synced before it was identified)
+ * to the internal ID
+ */
+async function migrateAccountState(fromId: string, toId: string): Promise<void> {
+  const [fromCursor, toCursor] = await Promise.all([getCursor(fromId), getCursor(toId)]);
+  if (fromCursor) {
+    if (!toCursor || fromCursor.sinceISO > toCursor.sinceISO) {
+      await setCursor(toId, { ...fromCursor, resumeFrom: toCursor?.resumeFrom });
+    }
+    await deleteCursor(fromId);
+  }
+
+  const pending = await getPendingTransactions(fromId);
+  for (const tx of pending.values()) {
+    await savePendingTransaction({ ...tx, accountId: toId });
+    await removePendingTransaction(fromId, tx.txId);
+  }
+
+  const owner = await getAccountOwner(fromId);
+  if (owner && !(await getAccountOwner(toId))) {
+    await setAccountOwner(toId, owner);
+  }
+
+  await reassignAccountHistory(fromId, toId);
+
+  logger.info({
+    fromId,
+    toId,
+    cursor: !!fromCursor,
+    pending: pending.size,
+  }, 'Account state migrated');
+}
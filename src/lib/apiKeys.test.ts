@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import Fastify, { FastifyInstance } from 'fastify';
+
+const stored = new Map<string, string>();
+
+jest.mock('./redis', () => ({
+  getRedis: () => ({ get: async (key: string) => stored.get(key) ?? null }),
+}));
+jest.mock('./notifications', () => ({
+  sendBalanceSyncNotification: jest.fn(async () => undefined),
+}));
+jest.mock('./gcAuth', () => ({
+  getGCAuth: () => ({ clearTokens: jest.fn(async () => undefined) }),
+}));
+jest.mock('../workers/webhookWorker', () => ({
+  getWebhookEvent: jest.fn(async () => null),
+  listWebhookEvents: jest.fn(async () => []),
+  redriveDeadWebhookEvents: jest.fn(async () => 0),
+  redriveWebhookEvent: jest.fn(async () => null),
+}));
+
+import { ApiKeyRecord, ApiScope, authenticate, hasScope } from './apiKeys';
+import auth from '../routes/auth';
+import balance from '../routes/balance';
+import notifications from '../routes/notifications';
+import webhooks from '../routes/webhooks';
+
+function storeKey(id: string, scopes: ApiScope[], userId?: string): string {
+  const key = `bsk_${id}.secret`;
+  const record: ApiKeyRecord = {
+    id,
+    name: id,
+    scopes,
+    userId,
+    hash: crypto.createHash('sha256').update(key).digest('hex'),
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+  stored.set(`api:key:${id}`, JSON.stringify(record));
+  return key;
+}
+
+describe('hasScope', () => {
+  it('lets admin imply every other scope', () => {
+    const identity = { id: 'k', name: 'k', scopes: ['admin'] as ApiScope[] };
+    expect(hasScope(identity, 'read')).toBe(true);
+    expect(hasScope(identity, 'sync')).toBe(true);
+  });
+
+  it('refuses scopes the key does not carry', () => {
+    const identity = { id: 'k', name: 'k', scopes: ['read'] as ApiScope[] };
+    expect(hasScope(identity, 'read')).toBe(true);
+    expect(hasScope(identity, 'sync')).toBe(false);
+    expect(hasScope(identity, 'admin')).toBe(false);
+  });
+});
+
+describe('service-wide routes', () => {
+  let app: FastifyInstance;
+  const serviceKey = storeKey('00000000000000aa', ['admin']);
+  const userKey = storeKey('00000000000000bb', ['admin'], 'user-1');
+
+  beforeAll(async () => {
+    app = Fastify();
+    app.addHook('preHandler', authenticate);
+    await app.register(auth, { prefix: '/v1' });
+    await app.register(balance, { prefix: '/v1' });
+    await app.register(notifications, { prefix: '/v1' });
+    await app.register(webhooks, { prefix: '/v1' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const routes: [string, string][] = [
+    ['GET', '/v1/webhooks/events'],
+    ['GET', '/v1/webhooks/events/event-1'],
+    ['POST', '/v1/webhooks/events/event-1/redrive'],
+    ['POST', '/v1/webhooks/events/redrive'],
+    ['POST', '/v1/auth/token'],
+    ['POST', '/v1/auth/logout'],
+    ['POST', '/v1/notifications/test'],
+    ['POST', '/v1/test-notification'],
+  ];
+
+  it.each(routes)('refuses a user-scoped admin key on %s %s', async (method, url) => {
+    const response = await app.inject({
+      method: method as 'GET' | 'POST',
+      url,
+      headers: { 'x-api-key': userKey },
+      payload: method === 'POST' ? {} : undefined,
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).toMatchObject({ error: 'FORBIDDEN' });
+  });
+
+  it('lets a service-wide admin key through', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/v1/webhooks/events',
+      headers: { 'x-api-key': serviceKey },
+    });
+
+    expect(response.statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { getRedis } from './redis';
+import { canAccessAccount } from './tenancy';
+import { logger } from '../logger';
+import { config } from '../config';
+
+const API_KEY_PREFIX = 'api:key:';
+const API_KEY_INDEX = 'api:keys';
+const TOKEN_PREFIX = 'bsk_';
+
+export type ApiScope = 'read' | 'sync' | 'admin';
+
+export const API_SCOPES: ApiScope[] = ['read', 'sync', 'admin'];
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  userId?: string; // Restricts the key to one user's data
+  hash: string; // sha256 of the full key, the key itself is never stored
+  createdAt: string;
+  revokedAt?: string;
+}
+
+export interface ApiKeyIdentity {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  userId?: string;
+}
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    /**
+     * Scope a route requires. Defaults to 'read' for GET/HEAD and 'sync'
+     * otherwise; 'public' routes skip authentication.
+     */
+    scope?: ApiScope | 'public';
+
+    /**
+     * Route acts on every user's data (webhook events, provider token,
+     * notifications), so user-scoped keys are refused even with 'admin'
+     */
+    serviceWide?: boolean;
+  }
+
+  interface FastifyRequest {
+    apiKey?: ApiKeyIdentity;
+  }
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// Compares digests, so inputs of any length take the same time
+function hashesMatch(a: string, b: string): boolean {
+  return crypto.timingSafeEqual(Buffer.from(a, 'hex'), Buffer.from(b, 'hex'));
+}
+
+function toIdentity(record: ApiKeyRecord): ApiKeyIdentity {
+  return { id: record.id, name: record.name, scopes: record.scopes, userId: record.userId };
+}
+
+/**
+ * Create an API key. The plain key is only returned here.
+ */
+export async function createApiKey(
+  name: string,
+  scopes: ApiScope[],
+  userId?: string
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const id = crypto.randomBytes(8).toString('hex');
+  const key = `${TOKEN_PREFIX}${id}.${crypto.randomBytes(24).toString('base64url')}`;
+
+  const record: ApiKeyRecord = {
+    id,
+    name,
+    scopes: [...new Set(scopes)],
+    userId,
+    hash: hashKey(key),
+    createdAt: new Date().toISOString(),
+  };
+
+  const redis = getRedis();
+  await redis.set(`${API_KEY_PREFIX}${id}`, JSON.stringify(record));
+  await redis.sadd(API_KEY_INDEX, id);
+
+  logger.info({ keyId: id, name, scopes: record.scopes, userId }, 'API key created');
+
+  return { key, record };
+}
+
+export async function getApiKey(id: string): Promise<ApiKeyRecord | null> {
+  const redis = getRedis();
+  const data = await redis.get(`${API_KEY_PREFIX}${id}`);
+  return data ? JSON.parse(data) as ApiKeyRecord : null;
+}
+
+export async function listApiKeys(): Promise<ApiKeyRecord[]> {
+  const redis = getRedis();
+  const ids = await redis.smembers(API_KEY_INDEX);
+  const records = await Promise.all(ids.map(id => getApiKey(id)));
+
+  return records
+    .filter((record): record is ApiKeyRecord => record !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Revoke an API key. The record is kept for auditing.
+ */
+export async function revokeApiKey(id: string): Promise<ApiKeyRecord | null> {
+  const record = await getApiKey(id);
+  if (!record) return null;
+
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    const redis = getRedis();
+    await redis.set(`${API_KEY_PREFIX}${id}`, JSON.stringify(record));
+    logger.info({ keyId: id, name: record.name }, 'API key revoked');
+  }
+
+  return record;
+}
+
+/**
+ * Resolve a presented key to its identity (null if unknown or revoked)
+ */
+export async function verifyApiKey(key: string): Promise<ApiKeyIdentity | null> {
+  const hash = hashKey(key);
+
+  // Bootstrap key from the environment, used to create the first keys
+  if (config.auth.adminKey && hashesMatch(hash, hashKey(config.auth.adminKey))) {
+    return { id: 'env', name: 'API_ADMIN_KEY', scopes: ['admin'] };
+  }
+
+  const match = /^bsk_([0-9a-f]{16})\./.exec(key);
+  if (!match) return null;
+
+  const record = await getApiKey(match[1]);
+  if (!record || record.revokedAt || !hashesMatch(hash, record.hash)) {
+    return null;
+  }
+
+  return toIdentity(record);
+}
+
+export function hasScope(identity: ApiKeyIdentity, scope: ApiScope): boolean {
+  return identity.scopes.includes('admin') || identity.scopes.includes(scope);
+}
+
+function extractKey(request: FastifyRequest): string | undefined {
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string' && header) return header;
+
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  return undefined;
+}
+
+/**
+ * preHandler enforcing the scope each route declares in its config
+ */
+export async function authenticate(request: FastifyRequest, reply: FastifyReply) {
+  if (!config.auth.enabled) return;
+
+  const routeScope = request.routeOptions.config?.scope;
+  if (routeScope === 'public' || !request.routeOptions.url) return;
+
+  const scope: ApiScope = routeScope ||
+    (request.method === 'GET' || request.method === 'HEAD' ? 'read' : 'sync');
+
+  const key = extractKey(request);
+  if (!key) {
+    return reply.code(401).send({
+      error: 'UNAUTHORIZED',
+      message: 'Missing API key (Authorization: Bearer <key> or X-API-Key)',
+    });
+  }
+
+  let identity: ApiKeyIdentity | null;
+  try {
+    identity = await verifyApiKey(key);
+  } catch (err) {
+    logger.error({ err }, 'Failed to verify API key');
+    return reply.code(500).send({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to verify API key',
+    });
+  }
+
+  if (!identity) {
+    return reply.code(401).send({
+      error: 'UNAUTHORIZED',
+      message: 'Invalid or revoked API key',
+    });
+  }
+
+  if (!hasScope(identity, scope)) {
+    logger.warn({ keyId: identity.id, scope, url: request.url }, 'API key lacks scope');
+    return reply.code(403).send({
+      error: 'FORBIDDEN',
+      message: `API key lacks the '${scope}' scope`,
+    });
+  }
+
+  if (request.routeOptions.config?.serviceWide && identity.userId) {
+    logger.warn({ keyId: identity.id, userId: identity.userId, url: request.url }, 'User-scoped API key on service-wide route');
+    return reply.code(403).send({
+      error: 'FORBIDDEN',
+      message: 'User-scoped API keys cannot use this route',
+    });
+  }
+
+  // User-scoped keys only see their own accounts
+  const { accountId } = (request.params || {}) as { accountId?: string };
+  if (accountId && !(await canAccessAccount(identity.userId, accountId))) {
+    return reply.code(404).send({
+      error: 'NOT_FOUND',
+      message: 'Account not found',
+    });
+  }
+
+  request.apiKey = identity;
+}
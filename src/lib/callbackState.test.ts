@@ -0,0 +1,115 @@
+import { config } from '../config';
+import {
+  createCallbackState,
+  isAllowedReturnUrl,
+  verifyCallbackState,
+  withCallbackState,
+} from './callbackState';
+
+describe('callback state', () => {
+  const start = new Date('2024-03-01T10:00:00Z').getTime();
+
+  beforeEach(() => {
+    config.callback.stateSecret = 'state-secret';
+    config.requisitions.pendingTtlHours = 24;
+    jest.useFakeTimers().setSystemTime(start);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function tamperPayload(token: string, changes: Record<string, unknown>): string {
+    const [encoded, signature] = token.split('.');
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    const forged = Buffer.from(JSON.stringify({ ...payload, ...changes })).toString('base64url');
+    return `${forged}.${signature}`;
+  }
+
+  it('accepts a token for its own reference and carries the return URL', () => {
+    const token = createCallbackState('user-1:ref', 'https://app.example.com/done');
+    expect(verifyCallbackState(token, 'user-1:ref')).toEqual({
+      valid: true,
+      returnUrl: 'https://app.example.com/done',
+    });
+  });
+
+  it('rejects a missing token', () => {
+    expect(verifyCallbackState(undefined, 'user-1:ref')).toEqual({ valid: false, reason: 'missing' });
+  });
+
+  it('rejects a tampered payload', () => {
+    const token = createCallbackState('user-1:ref', 'https://app.example.com/done');
+    const forged = tamperPayload(token, { returnUrl: 'https://evil.example.com/' });
+    expect(verifyCallbackState(forged, 'user-1:ref')).toEqual({ valid: false, reason: 'bad_signature' });
+  });
+
+  it('rejects a tampered or differently keyed signature', () => {
+    const token = createCallbackState('user-1:ref');
+    const [encoded, signature] = token.split('.');
+    const flipped = `${signature.startsWith('A') ? 'B' : 'A'}${signature.slice(1)}`;
+    expect(verifyCallbackState(`${encoded}.${flipped}`, 'user-1:ref')).toMatchObject({ reason: 'bad_signature' });
+    expect(verifyCallbackState(`${encoded}.short`, 'user-1:ref')).toMatchObject({ reason: 'bad_signature' });
+
+    config.callback.stateSecret = 'rotated-secret';
+    expect(verifyCallbackState(token, 'user-1:ref')).toMatchObject({ reason: 'bad_signature' });
+  });
+
+  it('rejects tokens with missing or extra segments', () => {
+    const token = createCallbackState('user-1:ref');
+    expect(verifyCallbackState(`${token}.extra`, 'user-1:ref')).toEqual({ valid: false, reason: 'malformed' });
+    expect(verifyCallbackState(token.split('.')[0], 'user-1:ref')).toEqual({ valid: false, reason: 'malformed' });
+    expect(verifyCallbackState(`.${token.split('.')[1]}`, 'user-1:ref')).toEqual({ valid: false, reason: 'malformed' });
+  });
+
+  it('rejects an expired token', () => {
+    const token = createCallbackState('user-1:ref');
+
+    jest.setSystemTime(start + 24 * 60 * 60 * 1000);
+    expect(verifyCallbackState(token, 'user-1:ref').valid).toBe(true);
+
+    jest.setSystemTime(start + 24 * 60 * 60 * 1000 + 1);
+    expect(verifyCallbackState(token, 'user-1:ref')).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('rejects a token issued for another reference', () => {
+    const token = createCallbackState('user-1:ref');
+    expect(verifyCallbackState(token, 'user-2:ref')).toEqual({ valid: false, reason: 'reference_mismatch' });
+  });
+
+  it('adds the token to the bank redirect', () => {
+    const url = new URL(withCallbackState('https://api.example.com/v1/requisitions/callback?ref=a', 'token.sig'));
+    expect(url.searchParams.get('ref')).toBe('a');
+    expect(url.searchParams.get('state')).toBe('token.sig');
+  });
+});
+
+describe('isAllowedReturnUrl', () => {
+  beforeEach(() => {
+    config.callback.returnUrl = 'https://app.example.com/linked';
+    config.callback.returnOrigins = ['https://admin.example.com'];
+  });
+
+  afterEach(() => {
+    config.callback.returnUrl = undefined;
+    config.callback.returnOrigins = [];
+  });
+
+  it('allows the configured return URL origin and the extra origins', () => {
+    expect(isAllowedReturnUrl('https://app.example.com/other?x=1')).toBe(true);
+    expect(isAllowedReturnUrl('https://admin.example.com/')).toBe(true);
+  });
+
+  it('rejects other origins, including look-alikes and other ports', () => {
+    expect(isAllowedReturnUrl('https://evil.example.com/')).toBe(false);
+    expect(isAllowedReturnUrl('https://app.example.com.evil.com/')).toBe(false);
+    expect(isAllowedReturnUrl('https://app.example.com:8443/')).toBe(false);
+    expect(isAllowedReturnUrl('http://app.example.com/')).toBe(false);
+  });
+
+  it('rejects non-http schemes and unparseable URLs', () => {
+    expect(isAllowedReturnUrl('javascript:alert(1)')).toBe(false);
+    expect(isAllowedReturnUrl('data:text/html,<script>alert(1)</script>')).toBe(false);
+    expect(isAllowedReturnUrl('/relative/path')).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import { config } from '../config';
+
+interface CallbackStatePayload {
+  ref: string; // Requisition reference the state is bound to
+  returnUrl?: string;
+  exp: number;
+}
+
+export type CallbackStateResult =
+  | { valid: true; returnUrl?: string }
+  | { valid: false; reason: 'missing' | 'malformed' | 'bad_signature' | 'expired' | 'reference_mismatch' };
+
+function stateKey(): string {
+  // Without a dedicated secret, derive one from the GoCardless secret
+  return config.callback.stateSecret || crypto
+    .createHmac('sha256', config.gocardless.secretKey)
+    .update('requisition-callback-state')
+    .digest('hex');
+}
+
+function sign(encoded: string): string {
+  return crypto.createHmac('sha256', stateKey()).update(encoded).digest('base64url');
+}
+
+/**
+ * Whether the frontend may be redirected to this URL after linking
+ */
+export function isAllowedReturnUrl(returnUrl: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(returnUrl);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+
+  const allowed = [...config.callback.returnOrigins];
+  if (config.callback.returnUrl) {
+    allowed.push(new URL(config.callback.returnUrl).origin);
+  }
+
+  return allowed.includes(url.origin);
+}
+
+/**
+ * Signed token bound to a requisition reference, carried through the bank
+ * redirect as `?state=`
+ */
+export function createCallbackState(reference: string, returnUrl?: string): string {
+  const payload: CallbackStatePayload = {
+    ref: reference,
+    returnUrl,
+    exp: Date.now() + config.requisitions.pendingTtlHours * 60 * 60 * 1000, // As long as the link stays usable
+  };
+
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+export function verifyCallbackState(
+  token: string | undefined,
+  reference: string
+): CallbackStateResult {
+  if (!token) return { valid: false, reason: 'missing' };
+
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  // Compare digests so differing lengths cannot throw
+  const expected = crypto.createHash('sha256').update(sign(encoded)).digest();
+  const received = crypto.createHash('sha256').update(signature).digest();
+  if (!crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'bad_signature' };
+  }
+
+  let payload: CallbackStatePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (typeof payload.exp !== 'number' || payload.exp < Date.now()) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  if (payload.ref !== reference) {
+    return { valid: false, reason: 'reference_mismatch' };
+  }
+
+  return { valid: true, returnUrl: payload.returnUrl };
+}
+
+/**
+ * Add the state token to the URL the bank redirects back to
+ */
+export function withCallbackState(redirectUrl: string, state: string): string {
+  const url = new URL(redirectUrl);
+  url.searchParams.set('state', state);
+  return url.toString();
+}
@@ -0,0 +1,128 @@
+import { Agreement, Requisition } from './requisition';
+
+const strings = new Map<string, string>();
+const requisitions = new Map<string, Requisition>();
+const renewals = new Map<string, string>();
+const emit = jest.fn();
+
+const agreement: Agreement = {
+  id: 'agr-1',
+  created: '2024-01-01T00:00:00Z',
+  max_historical_days: 730,
+  access_valid_for_days: 90,
+  access_scope: ['balances', 'details', 'transactions'],
+  accepted: '2024-01-11T00:00:00Z', // Expires 2024-04-10
+  institution_id: 'BANK_ID',
+};
+
+jest.mock('./redis', () => ({
+  getRedis: () => ({
+    set: async (key: string, value: string, ...args: unknown[]) => {
+      if (args.includes('NX') && strings.has(key)) return null;
+      strings.set(key, value);
+      return 'OK';
+    },
+  }),
+}));
+jest.mock('./requisition', () => ({
+  getRequisitionManager: () => ({
+    listAllRequisitions: async () => [...requisitions.values()],
+    getRequisition: async (id: string) => requisitions.get(id) ?? null,
+    getRenewal: async (id: string) => renewals.get(id) ?? null,
+    getAgreement: async () => agreement,
+  }),
+}));
+jest.mock('./events', () => ({ emit: (...args: unknown[]) => emit(...args) }));
+jest.mock('./notifications', () => ({ sendConsentExpiryNotification: async () => undefined }));
+jest.mock('../logger', () => ({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { config } from '../config';
+import { checkConsentExpiry, getConsentExpiry, notifyConsentExpired } from './consent';
+
+function requisition(overrides: Partial<Requisition> = {}): Requisition {
+  return {
+    id: 'req-1',
+    created: '2024-01-01T00:00:00Z',
+    redirect: 'https://example.com/callback',
+    status: 'LN',
+    institution_id: 'BANK_ID',
+    agreement: 'agr-1',
+    reference: 'user-1:ref',
+    accounts: ['acc-1'],
+    user_language: 'EN',
+    link: 'https://example.com/link',
+    ...overrides,
+  };
+}
+
+function emitted(event: string) {
+  return emit.mock.calls.filter(([name]) => name === event).map(([, data]) => data);
+}
+
+describe('consent expiry', () => {
+  beforeEach(() => {
+    strings.clear();
+    requisitions.clear();
+    renewals.clear();
+    emit.mockReset();
+    config.consent.notifyDays = [7, 3, 1];
+    requisitions.set('req-1', requisition());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('counts access from the acceptance date', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-04-05T12:00:00Z'));
+
+    expect(await getConsentExpiry(requisition())).toMatchObject({
+      consentedAt: '2024-01-11T00:00:00Z',
+      expiresAt: '2024-04-10T00:00:00.000Z',
+      daysRemaining: 5,
+      expired: false,
+    });
+  });
+
+  it('notifies once per threshold crossed', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-04-05T12:00:00Z'));
+    expect(await checkConsentExpiry()).toEqual({ expiring: 1, expired: 0 });
+    expect(await checkConsentExpiry()).toEqual({ expiring: 0, expired: 0 });
+
+    jest.setSystemTime(new Date('2024-04-08T12:00:00Z'));
+    expect(await checkConsentExpiry()).toEqual({ expiring: 1, expired: 0 });
+    expect(emitted('bank.requisition.expiring')).toEqual([
+      expect.objectContaining({ requisitionId: 'req-1', daysRemaining: 5, accountIds: ['acc-1'], userId: 'user-1' }),
+      expect.objectContaining({ daysRemaining: 2 }),
+    ]);
+  });
+
+  it('sends only the closest threshold when earlier ones were missed', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-04-09T12:00:00Z'));
+    expect(await checkConsentExpiry()).toEqual({ expiring: 1, expired: 0 });
+    expect(emitted('bank.requisition.expiring')).toEqual([expect.objectContaining({ daysRemaining: 1 })]);
+  });
+
+  it('notifies expiry once, whichever path sees it first', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-04-11T12:00:00Z'));
+    expect(await checkConsentExpiry()).toEqual({ expiring: 0, expired: 1 });
+    expect(await notifyConsentExpired(requisition({ status: 'EX' }))).toBe(false);
+    expect(emitted('bank.requisition.expired')).toHaveLength(1);
+  });
+
+  it('skips requisitions already renewed by a linked requisition', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-04-05T12:00:00Z'));
+    renewals.set('req-1', 'req-2');
+    requisitions.set('req-2', requisition({ id: 'req-2', status: 'CR' }));
+
+    // A renewal still in progress does not silence the notice
+    expect(await checkConsentExpiry()).toEqual({ expiring: 1, expired: 0 });
+    expect(emitted('bank.requisition.expiring')[0]).toMatchObject({ renewalId: 'req-2' });
+
+    strings.clear();
+    emit.mockReset();
+    requisitions.set('req-2', requisition({ id: 'req-2', status: 'LN' }));
+    await checkConsentExpiry();
+    expect(emitted('bank.requisition.expiring').map(data => data.requisitionId)).toEqual(['req-2']);
+  });
+});
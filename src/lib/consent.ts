@@ -0,0 +1,137 @@
+import { emit } from './events';
+import { Requisition, getRequisitionManager } from './requisition';
+import { getRedis } from './redis';
+import { referenceOwner } from './tenancy';
+import { sendConsentExpiryNotification } from './notifications';
+import { logger } from '../logger';
+import { config } from '../config';
+
+const NOTIFIED_PREFIX = 'gc:consent:notified:'; // <requisitionId>:<threshold|expired>
+const NOTIFIED_TTL = 180 * 24 * 60 * 60; // Longer than any consent
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ConsentExpiry {
+  requisitionId: string;
+  institutionId: string;
+  accessValidForDays: number;
+  consentedAt: string;
+  expiresAt: string;
+  daysRemaining: number; // Whole days left, 0 or less once expired
+  expired: boolean;
+}
+
+/**
+ * When a requisition's consent expires: access_valid_for_days after the
+ * agreement was accepted (or the requisition created, if never accepted).
+ * Null if the agreement is gone.
+ */
+export async function getConsentExpiry(requisition: Requisition): Promise<ConsentExpiry | null> {
+  if (!requisition.agreement) return null;
+
+  const agreement = await getRequisitionManager().getAgreement(requisition.agreement);
+  if (!agreement) return null;
+
+  const consentedAt = agreement.accepted || requisition.created;
+  const expiresAt = new Date(new Date(consentedAt).getTime() + agreement.access_valid_for_days * DAY_MS);
+  const daysRemaining = Math.ceil((expiresAt.getTime() - Date.now()) / DAY_MS);
+
+  return {
+    requisitionId: requisition.id,
+    institutionId: requisition.institution_id,
+    accessValidForDays: agreement.access_valid_for_days,
+    consentedAt,
+    expiresAt: expiresAt.toISOString(),
+    daysRemaining,
+    expired: requisition.status === 'EX' || daysRemaining <= 0,
+  };
+}
+
+// Notify once per threshold (and once on expiry) per requisition
+async function markNotified(requisitionId: string, stage: string): Promise<boolean> {
+  const redis = getRedis();
+  const result = await redis.set(`${NOTIFIED_PREFIX}${requisitionId}:${stage}`, '1', 'EX', NOTIFIED_TTL, 'NX');
+  return result === 'OK';
+}
+
+type ConsentEventData = ConsentExpiry & {
+  accountIds: string[];
+  userId?: string;
+  renewalId?: string;
+};
+
+/**
+ * Payload of the expiring/expired events. Null when the requisition was
+ * already replaced by a linked renewal or its agreement is gone.
+ */
+async function buildConsentEvent(requisition: Requisition): Promise<ConsentEventData | null> {
+  const manager = getRequisitionManager();
+  const renewalId = await manager.getRenewal(requisition.id);
+  if (renewalId && (await manager.getRequisition(renewalId))?.status === 'LN') return null;
+
+  const expiry = await getConsentExpiry(requisition);
+  if (!expiry) return null;
+
+  return {
+    ...expiry,
+    accountIds: requisition.accounts || [],
+    userId: referenceOwner(requisition.reference) || undefined,
+    renewalId: renewalId || undefined,
+  };
+}
+
+async function sendExpired(data: ConsentEventData): Promise<boolean> {
+  if (!(await markNotified(data.requisitionId, 'expired'))) return false;
+
+  await emit('bank.requisition.expired', data);
+  await sendConsentExpiryNotification(data);
+  return true;
+}
+
+/**
+ * Emit bank.requisition.expired for a requisition seen going to EX, unless
+ * the expiry check already did
+ */
+export async function notifyConsentExpired(requisition: Requisition): Promise<boolean> {
+  const data = await buildConsentEvent(requisition);
+  return data ? sendExpired(data) : false;
+}
+
+/**
+ * Emit bank.requisition.expiring when a linked requisition crosses one of the
+ * configured notice thresholds and bank.requisition.expired once it lapses.
+ * Requisitions already renewed by a linked requisition are skipped.
+ */
+export async function checkConsentExpiry(): Promise<{ expiring: number; expired: number }> {
+  const manager = getRequisitionManager();
+  const thresholds = [...config.consent.notifyDays].sort((a, b) => a - b);
+  let expiring = 0;
+  let expired = 0;
+
+  for (const requisition of await manager.listAllRequisitions()) {
+    if (requisition.status !== 'LN' && requisition.status !== 'EX') continue;
+
+    try {
+      const data = await buildConsentEvent(requisition);
+      if (!data) continue;
+
+      if (data.expired) {
+        if (await sendExpired(data)) expired++;
+        continue;
+      }
+
+      // Smallest threshold the remaining days fall within
+      const threshold = thresholds.find(days => data.daysRemaining <= days);
+      if (threshold !== undefined && await markNotified(requisition.id, String(threshold))) {
+        await emit('bank.requisition.expiring', data);
+        await sendConsentExpiryNotification(data);
+        expiring++;
+      }
+    } catch (err) {
+      logger.error({ err, requisitionId: requisition.id }, 'Failed to check consent expiry');
+    }
+  }
+
+  logger.info({ expiring, expired }, 'Consent expiry check completed');
+
+  return { expiring, expired };
+}
@@ -5,6 +5,8 @@ export interface CursorData {
   sinceISO: string;
   cursor?: string;
   lastTxnRef?: string;
+  resumeFrom?: string; // Date a truncated sync must continue from
+  lastDeepScanAt?: string;
   updatedAt: string;
 }
 
@@ -39,6 +41,9 @@ export async function setCursor(
       sinceISO: cursor.sinceISO || existing?.sinceISO || new Date().toISOString(),
       cursor: cursor.cursor || existing?.cursor,
       lastTxnRef: cursor.lastTxnRef || existing?.lastTxnRef,
+      // Passing resumeFrom explicitly (even undefined) replaces it
+      lastDeepScanAt: cursor.lastDeepScanAt || existing?.lastDeepScanAt,
+      resumeFrom: 'resumeFrom' in cursor ? cursor.resumeFrom : existing?.resumeFrom,
       updatedAt: new Date().toISOString(),
     };
     
@@ -54,6 +59,11 @@ export async function setCursor(
   }
 }
 
+export async function deleteCursor(accountId: string): Promise<void> {
+  const redis = getRedis();
+  await redis.del(`${CURSOR_PREFIX}${accountId}`, `${CHECKPOINT_PREFIX}${accountId}`);
+}
+
 async function saveCheckpoint(accountId: string, cursor: CursorData): Promise<void> {
   const redis = getRedis();
   const key = `${CHECKPOINT_PREFIX}${accountId}`;
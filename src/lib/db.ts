@@ -0,0 +1,56 @@
+import { Pool } from 'pg';
+import { config } from '../config';
+import { logger } from '../logger';
+import { runMigrations } from './migrations';
+
+let pool: Pool | null = null;
+
+/**
+ * The durable store is optional: it is enabled when DB_URL points to Postgres
+ */
+export function isDatabaseEnabled(): boolean {
+  const url = config.database.url;
+  return !!url && /^postgres(ql)?:\/\//.test(url);
+}
+
+export async function initDatabase(): Promise<Pool | null> {
+  if (pool) return pool;
+
+  if (!isDatabaseEnabled()) {
+    if (config.database.url) {
+      logger.warn('DB_URL is not a Postgres URL, durable store disabled');
+    } else {
+      logger.info('DB_URL not configured, durable store disabled');
+    }
+    return null;
+  }
+
+  pool = new Pool({
+    connectionString: config.database.url,
+    max: 10,
+  });
+
+  pool.on('error', (err) => {
+    logger.error({ err }, 'Postgres pool error');
+  });
+
+  await pool.query('SELECT 1');
+  await runMigrations(pool);
+
+  logger.info('Postgres connected');
+  return pool;
+}
+
+export function getDb(): Pool {
+  if (!pool) {
+    throw new Error('Database not initialized. Call initDatabase() first');
+  }
+  return pool;
+}
+
+export async function closeDatabase(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
+}
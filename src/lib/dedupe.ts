@@ -25,6 +25,18 @@ export async function isDuplicate(externalRef: string): Promise<boolean> {
   }
 }
 
+export async function isProcessed(externalRef: string): Promise<boolean> {
+  const redis = getRedis();
+  const key = `${DEDUPE_PREFIX}${externalRef}`;
+  
+  try {
+    return (await redis.exists(key)) === 1;
+  } catch (err) {
+    logger.error({ err, externalRef }, 'Failed to check processed');
+    return false;
+  }
+}
+
 export async function markProcessed(externalRef: string): Promise<void> {
   const redis = getRedis();
   const key = `${DEDUPE_PREFIX}${externalRef}`;
@@ -36,6 +48,17 @@ export async function markProcessed(externalRef: string): Promise<void> {
   }
 }
 
+export async function unmarkProcessed(externalRef: string): Promise<void> {
+  const redis = getRedis();
+  const key = `${DEDUPE_PREFIX}${externalRef}`;
+  
+  try {
+    await redis.del(key);
+  } catch (err) {
+    logger.error({ err, externalRef }, 'Failed to unmark processed');
+  }
+}
+
 export async function batchCheckDuplicates(
   externalRefs: string[]
 ): Promise<Map<string, boolean>> {
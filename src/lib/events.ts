@@ -1,21 +1,31 @@
 import { getRedis } from './redis';
 import { logger } from '../logger';
 import { v4 as uuid } from 'uuid';
+import { getAccountOwner } from './tenancy';
 
 export interface EventPayload {
   eventId: string;
   eventType: string;
   timestamp: string;
   version: string;
+  userId?: string; // data.userId or the owner of data.accountId, for per-user consumers
   data: any;
   metadata?: Record<string, any>;
 }
 
 export type EventType = 
   | 'bank.tx.created'
+  | 'bank.tx.updated'
+  | 'bank.tx.removed'
   | 'bank.sync.completed'
   | 'bank.sync.failed'
-  | 'bank.account.updated';
+  | 'bank.account.updated'
+  | 'bank.reconciliation.mismatch'
+  | 'bank.requisition.linked'
+  | 'bank.requisition.rejected'
+  | 'bank.requisition.suspended'
+  | 'bank.requisition.expiring'
+  | 'bank.requisition.expired';
 
 const MAX_STREAM_LENGTH = 100000; // Keep last 100k events per stream
 
@@ -27,11 +37,15 @@ export async function emit(
   const redis = getRedis();
   const eventId = uuid();
   
+  const userId = data?.userId ||
+    (data?.accountId ? await getAccountOwner(data.accountId) : null);
+  
   const event: EventPayload = {
     eventId,
     eventType,
     timestamp: new Date().toISOString(),
     version: '1.0',
+    ...(userId ? { userId } : {}),
     data,
     metadata: metadata || {},
   };
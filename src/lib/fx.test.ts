@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileFxRateSource, convertAmount, registerFxSource } from './fx';
+
+const table = {
+  base: 'eur',
+  rates: {
+    '2024-03-01': { USD: 1.08, GBP: 0.85 },
+    '2024-03-04': { USD: 1.1, GBP: 0.86 },
+  },
+};
+
+describe('FileFxRateSource', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fx-'));
+    file = path.join(dir, 'rates.json');
+    await fs.writeFile(file, JSON.stringify(table));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('quotes the base currency and cross rates from the latest day', async () => {
+    const source = new FileFxRateSource(file);
+
+    expect(await source.getRate('EUR', 'USD')).toEqual({
+      from: 'EUR', to: 'USD', rate: 1.1, date: '2024-03-04', source: 'file',
+    });
+    expect((await source.getRate('USD', 'EUR'))?.rate).toBeCloseTo(1 / 1.1);
+    expect((await source.getRate('USD', 'GBP'))?.rate).toBeCloseTo(0.86 / 1.1);
+  });
+
+  it('uses the latest day on or before the requested date', async () => {
+    const source = new FileFxRateSource(file);
+
+    expect((await source.getRate('EUR', 'USD', '2024-03-01'))?.date).toBe('2024-03-01');
+    expect((await source.getRate('EUR', 'USD', '2024-03-03'))?.date).toBe('2024-03-01');
+    expect(await source.getRate('EUR', 'USD', '2024-02-29')).toBeNull();
+  });
+
+  it('returns null for unknown currencies or a missing file', async () => {
+    expect(await new FileFxRateSource(file).getRate('EUR', 'JPY')).toBeNull();
+    expect(await new FileFxRateSource(path.join(dir, 'missing.json')).getRate('EUR', 'USD')).toBeNull();
+  });
+
+  it('re-reads the file when it changes and keeps the last good table', async () => {
+    const source = new FileFxRateSource(file);
+    expect((await source.getRate('EUR', 'USD'))?.rate).toBe(1.1);
+
+    const later = new Date(Date.now() + 60_000);
+    await fs.writeFile(file, JSON.stringify({ base: 'EUR', rates: { '2024-03-05': { USD: 1.2 } } }));
+    await fs.utimes(file, later, later);
+    expect((await source.getRate('EUR', 'USD'))?.rate).toBe(1.2);
+
+    const latest = new Date(Date.now() + 120_000);
+    await fs.writeFile(file, '{ not json');
+    await fs.utimes(file, latest, latest);
+    expect((await source.getRate('EUR', 'USD'))?.rate).toBe(1.2);
+  });
+});
+
+describe('convertAmount', () => {
+  beforeAll(() => {
+    registerFxSource({
+      name: 'file',
+      getRate: async (from, to, date) => (from === 'USD' && to === 'EUR'
+        ? { from, to, rate: 0.9259, date: date || '2024-03-04', source: 'file' }
+        : null),
+    });
+  });
+
+  it('converts at the source rate and rounds to cents', async () => {
+    expect(await convertAmount(10.01, 'USD', 'EUR', '2024-03-01'))
+      .toEqual({ amount: 9.27, rate: 0.9259, rateDate: '2024-03-01' });
+  });
+
+  it('needs no rate within one currency', async () => {
+    expect(await convertAmount(10, 'EUR', 'EUR')).toEqual({ amount: 10, rate: 1 });
+  });
+
+  it('returns null without a rate', async () => {
+    expect(await convertAmount(10, 'GBP', 'EUR')).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../logger';
+import { config } from '../config';
+
+export interface FxRate {
+  from: string;
+  to: string;
+  rate: number; // Units of `to` per unit of `from`
+  date: string; // Day the rate was quoted for
+  source: string;
+}
+
+/**
+ * A source of exchange rates (rates file, central bank feed, ...).
+ *
+ * Conversions only go through this interface, so adding a source means
+ * implementing it and calling registerFxSource().
+ */
+export interface FxRateSource {
+  readonly name: string;
+
+  /**
+   * Rate in effect on `date` (the latest known when omitted), or null if the
+   * source has none for the pair
+   */
+  getRate(from: string, to: string, date?: string): Promise<FxRate | null>;
+}
+
+/**
+ * Rates file layout: per day, units of each currency per unit of `base`
+ *
+ *   { "base": "EUR", "rates": { "2026-10-01": { "USD": 1.08, "GBP": 0.85 } } }
+ */
+interface RatesTable {
+  base: string;
+  rates: Record<string, Record<string, number>>;
+}
+
+/**
+ * Rates read from a local JSON table, for offline use. The file is re-read
+ * when it changes, so rates can be updated without a restart. A day without
+ * rates uses the latest earlier day in the table.
+ */
+export class FileFxRateSource implements FxRateSource {
+  readonly name = 'file';
+  private table: RatesTable | null = null;
+  private days: string[] = []; // Newest first
+  private loadedMtime = 0;
+
+  constructor(private readonly filePath: string) {}
+
+  async getRate(from: string, to: string, date?: string): Promise<FxRate | null> {
+    const table = await this.load();
+    if (!table) return null;
+
+    const day = date
+      ? this.days.find(d => d <= date)
+      : this.days[0];
+    if (!day) return null;
+
+    const rates = { ...table.rates[day], [table.base]: 1 };
+    if (!rates[from] || !rates[to]) return null;
+
+    return {
+      from,
+      to,
+      rate: rates[to] / rates[from],
+      date: day,
+      source: this.name,
+    };
+  }
+
+  private async load(): Promise<RatesTable | null> {
+    const file = path.resolve(this.filePath);
+
+    try {
+      const { mtimeMs } = await fs.stat(file);
+      if (this.table && mtimeMs === this.loadedMtime) return this.table;
+
+      const table = JSON.parse(await fs.readFile(file, 'utf8')) as RatesTable;
+      if (typeof table.base !== 'string' || typeof table.rates !== 'object') {
+        throw new Error('Expected { base, rates: { <day>: { <currency>: <rate> } } }');
+      }
+
+      this.table = { base: table.base.toUpperCase(), rates: table.rates };
+      this.days = Object.keys(table.rates).sort().reverse();
+      this.loadedMtime = mtimeMs;
+
+      logger.info({ file, base: this.table.base, days: this.days.length }, 'FX rates loaded');
+    } catch (err: any) {
+      // Keep serving the last good table
+      if (err.code === 'ENOENT') {
+        if (!this.table) logger.warn({ file }, 'FX rates file not found');
+      } else {
+        logger.error({ err, file }, 'Failed to load FX rates');
+      }
+    }
+
+    return this.table;
+  }
+}
+
+const sources = new Map<string, FxRateSource>();
+
+export function registerFxSource(source: FxRateSource): void {
+  sources.set(source.name, source);
+  logger.info({ source: source.name }, 'FX rate source registered');
+}
+
+/**
+ * The source selected by FX_SOURCE
+ */
+export function getFxSource(): FxRateSource {
+  const source = sources.get(config.fx.source);
+  if (!source) {
+    throw new Error(`Unknown FX rate source: ${config.fx.source}`);
+  }
+  return source;
+}
+
+export interface ConvertedAmount {
+  amount: number;
+  rate: number;
+  rateDate?: string; // Unset when no conversion was needed
+}
+
+/**
+ * Convert an amount between currencies (null if no rate is known)
+ */
+export async function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  date?: string
+): Promise<ConvertedAmount | null> {
+  if (from === to) return { amount, rate: 1 };
+
+  const rate = await getFxSource().getRate(from, to, date);
+  if (!rate) return null;
+
+  return {
+    amount: Math.round(amount * rate.rate * 100) / 100,
+    rate: rate.rate,
+    rateDate: rate.date,
+  };
+}
@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import { config } from '../config';
+import { GCTransaction, GoCardlessClient } from './gcClient';
+
+const body = JSON.stringify({ events: [{ id: 'ev-1' }] });
+
+function sign(secret: string, payload: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function gcTx(overrides: Partial<GCTransaction> = {}): GCTransaction {
+  return {
+    transactionId: 'gc-tx-1',
+    bookingDate: '2024-03-01',
+    transactionAmount: { amount: '-20.00', currency: 'EUR' },
+    ...overrides,
+  };
+}
+
+function now(): string {
+  return String(Math.floor(Date.now() / 1000));
+}
+
+describe('verifyWebhookSignature', () => {
+  let client: GoCardlessClient;
+
+  beforeEach(() => {
+    config.gocardless.webhookSecret = 'current';
+    config.gocardless.webhookPreviousSecrets = ['previous'];
+    config.gocardless.webhookToleranceSeconds = 300;
+    client = new GoCardlessClient();
+  });
+
+  it('accepts a fresh delivery signed with the current secret', () => {
+    const timestamp = now();
+    const signature = sign('current', `${timestamp}.${body}`);
+
+    expect(client.verifyWebhookSignature(body, signature, timestamp)).toEqual({ valid: true, secretIndex: 0 });
+    expect(client.verifyWebhookSignature(body, `sha256=${signature}`, timestamp)).toEqual({ valid: true, secretIndex: 0 });
+  });
+
+  it('accepts a previous secret during a rotation', () => {
+    const timestamp = now();
+
+    expect(client.verifyWebhookSignature(body, sign('previous', `${timestamp}.${body}`), timestamp))
+      .toEqual({ valid: true, secretIndex: 1 });
+    expect(client.verifyWebhookSignature(body, sign('retired', `${timestamp}.${body}`), timestamp))
+      .toEqual({ valid: false, reason: 'signature_mismatch' });
+  });
+
+  it('rejects deliveries outside the tolerance', () => {
+    const timestamp = String(Math.floor(Date.now() / 1000) - 301);
+
+    expect(client.verifyWebhookSignature(body, sign('current', `${timestamp}.${body}`), timestamp))
+      .toEqual({ valid: false, reason: 'stale_timestamp' });
+  });
+
+  it('rejects a missing timestamp while the tolerance is on', () => {
+    expect(client.verifyWebhookSignature(body, sign('current', body)))
+      .toEqual({ valid: false, reason: 'missing_timestamp' });
+  });
+
+  it('accepts an untimestamped body signature when the tolerance is 0', () => {
+    config.gocardless.webhookToleranceSeconds = 0;
+
+    expect(client.verifyWebhookSignature(body, sign('current', body))).toEqual({ valid: true, secretIndex: 0 });
+  });
+
+  it('rejects a timestamp the signature does not cover', () => {
+    const signature = sign('current', body);
+
+    expect(client.verifyWebhookSignature(body, signature, now()))
+      .toEqual({ valid: false, reason: 'signature_mismatch' });
+  });
+
+  it('rejects malformed signatures and timestamps', () => {
+    const timestamp = now();
+    const signature = sign('current', `${timestamp}.${body}`);
+
+    expect(client.verifyWebhookSignature(body, undefined, timestamp))
+      .toEqual({ valid: false, reason: 'missing_signature' });
+    expect(client.verifyWebhookSignature(body, 'not-hex', timestamp))
+      .toEqual({ valid: false, reason: 'malformed_signature' });
+    expect(client.verifyWebhookSignature(body, signature.slice(2), timestamp))
+      .toEqual({ valid: false, reason: 'malformed_signature' });
+    expect(client.verifyWebhookSignature(body, signature, '1.5e9'))
+      .toEqual({ valid: false, reason: 'invalid_timestamp' });
+  });
+
+  it('rejects everything without a configured secret', () => {
+    config.gocardless.webhookSecret = undefined;
+    config.gocardless.webhookPreviousSecrets = [];
+    client = new GoCardlessClient();
+    const timestamp = now();
+
+    expect(client.verifyWebhookSignature(body, sign('current', `${timestamp}.${body}`), timestamp))
+      .toEqual({ valid: false, reason: 'no_secret_configured' });
+  });
+});
+
+describe('normalizeTransaction', () => {
+  const client = new GoCardlessClient();
+
+  it('maps SEPA references and identifiers', () => {
+    const normalized = client.normalizeTransaction(gcTx({
+      internalTransactionId: 'internal-1',
+      entryReference: 'entry-1',
+      endToEndId: 'e2e-1',
+      mandateId: 'mandate-1',
+      creditorId: 'ES00ZZZ000',
+      merchantCategoryCode: '5411',
+      remittanceInformationUnstructuredArray: ['line 1', 'line 2'],
+      remittanceInformationStructuredArray: ['RF18539007547034'],
+      bankTransactionCode: 'PMNT-RDDT-ESDD',
+    }));
+
+    expect(normalized).toMatchObject({
+      externalRef: 'internal-1',
+      reference: 'RF18539007547034',
+      details: {
+        entryReference: 'entry-1',
+        endToEndId: 'e2e-1',
+        mandateId: 'mandate-1',
+        creditorId: 'ES00ZZZ000',
+        merchantCategoryCode: '5411',
+        remittanceInformation: ['line 1', 'line 2'],
+      },
+      metadata: { bankTransactionCode: 'PMNT-RDDT-ESDD' },
+    });
+  });
+
+  it('takes the counterparty from the other side of the payment', () => {
+    const parties = {
+      creditorName: 'Shop',
+      creditorAccount: { iban: 'ES0000000000000000000001' },
+      creditorAgent: 'SHOPESMM',
+      debtorName: 'Me',
+      debtorAccount: { iban: 'ES0000000000000000000002' },
+    };
+
+    expect(client.normalizeTransaction(gcTx(parties)).counterparty)
+      .toEqual({ name: 'Shop', iban: 'ES0000000000000000000001', bic: 'SHOPESMM' });
+    expect(client.normalizeTransaction(gcTx({ ...parties, transactionAmount: { amount: '20.00', currency: 'EUR' } })))
+      .toMatchObject({ direction: 'in', amount: 20, counterparty: { name: 'Me', iban: 'ES0000000000000000000002' } });
+  });
+
+  it('reads currency exchange sent as an object or a one-element array', () => {
+    const exchange = {
+      sourceCurrency: 'USD',
+      targetCurrency: 'EUR',
+      unitCurrency: 'USD',
+      exchangeRate: '0.92',
+      quotationDate: '2024-03-01',
+    };
+
+    for (const currencyExchange of [exchange, [exchange]]) {
+      expect(client.normalizeTransaction(gcTx({ currencyExchange })).details?.currencyExchange).toEqual({
+        sourceCurrency: 'USD',
+        targetCurrency: 'EUR',
+        unitCurrency: 'USD',
+        exchangeRate: 0.92,
+        quotationDate: '2024-03-01',
+        instructedAmount: undefined,
+      });
+    }
+  });
+
+  it('keeps the balance after the transaction', () => {
+    const normalized = client.normalizeTransaction(gcTx({
+      balanceAfterTransaction: {
+        balanceAmount: { amount: '980.00', currency: 'EUR' },
+        balanceType: 'interimBooked',
+      },
+    }));
+
+    expect(normalized.details?.balanceAfterTransaction)
+      .toEqual({ amount: 980, currency: 'EUR', balanceType: 'interimBooked' });
+  });
+});
+
+describe('original amounts of foreign-currency transactions', () => {
+  const client = new GoCardlessClient();
+
+  function original(currencyExchange: GCTransaction['currencyExchange'], amount = '-46.00') {
+    const { details } = client.normalizeTransaction(gcTx({
+      transactionAmount: { amount, currency: 'EUR' },
+      currencyExchange,
+    }));
+    return details && {
+      originalAmount: details.originalAmount,
+      originalCurrency: details.originalCurrency,
+      exchangeRate: details.exchangeRate,
+    };
+  }
+
+  it('prefers the instructed amount', () => {
+    expect(original({
+      sourceCurrency: 'USD',
+      exchangeRate: '0.5',
+      unitCurrency: 'USD',
+      instructedAmount: { amount: '-50.00', currency: 'USD' },
+    })).toEqual({ originalAmount: 50, originalCurrency: 'USD', exchangeRate: 0.92 });
+  });
+
+  it('derives the amount from a rate quoted per unit of the source currency', () => {
+    expect(original({ sourceCurrency: 'USD', unitCurrency: 'USD', exchangeRate: '0.92' }))
+      .toEqual({ originalAmount: 50, originalCurrency: 'USD', exchangeRate: 0.92 });
+  });
+
+  it('derives the amount from a rate quoted per unit of the account currency', () => {
+    expect(original({ sourceCurrency: 'USD', unitCurrency: 'EUR', exchangeRate: '1.25' }))
+      .toEqual({ originalAmount: 57.5, originalCurrency: 'USD', exchangeRate: 0.8 });
+  });
+
+  it('leaves the amount out when the rate direction or currency is unknown', () => {
+    const none = { originalAmount: undefined, originalCurrency: undefined, exchangeRate: undefined };
+
+    expect(original({ sourceCurrency: 'USD', exchangeRate: '0.92' })).toEqual(none);
+    expect(original({ sourceCurrency: 'EUR', unitCurrency: 'EUR', exchangeRate: '1' })).toEqual(none);
+    expect(original({ sourceCurrency: 'USD', unitCurrency: 'USD' })).toEqual(none);
+    expect(original({ sourceCurrency: 'USD', instructedAmount: { amount: '0', currency: 'USD' } })).toEqual(none);
+  });
+});
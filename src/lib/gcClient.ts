@@ -4,6 +4,18 @@ import { config } from '../config';
 import { logger } from '../logger';
 import { getGCAuth } from './gcAuth';
 import { getRequisitionManager } from './requisition';
+import { referenceOwner, setAccountOwner } from './tenancy';
+import {
+  BankProvider,
+  LinkRequest,
+  NormalizedTransaction,
+  ProviderAccount,
+  ProviderAccountDetails,
+  ProviderBalance,
+  ProviderLink,
+  ProviderTransactionPage,
+  TransactionRange,
+} from './provider';
 
 export interface GCAccount {
   id: string;
@@ -15,43 +27,70 @@ export interface GCAccount {
   owner_name?: string;
 }
 
-export interface GCBalance {
-  balanceAmount: {
+export interface GCBalance extends ProviderBalance {
+  referenceDate: string;
+}
+
+export interface GCCurrencyExchange {
+  sourceCurrency: string;
+  targetCurrency?: string;
+  unitCurrency?: string;
+  exchangeRate?: string;
+  quotationDate?: string;
+  instructedAmount?: {
     amount: string;
     currency: string;
   };
-  balanceType: string;
-  referenceDate: string;
 }
 
 export interface GCTransaction {
   transactionId: string;
   bookingDate: string;
+  bookingDateTime?: string;
   valueDate?: string;
   transactionAmount: {
     amount: string;
     currency: string;
   };
   remittanceInformationUnstructured?: string;
+  remittanceInformationUnstructuredArray?: string[];
   remittanceInformationStructured?: string;
+  remittanceInformationStructuredArray?: string[];
+  additionalInformation?: string;
+  entryReference?: string;
+  endToEndId?: string;
+  mandateId?: string;
+  creditorId?: string;
+  merchantCategoryCode?: string;
   creditorName?: string;
   creditorAccount?: {
     iban?: string;
   };
+  creditorAgent?: string; // BIC
+  ultimateCreditor?: string;
   debtorName?: string;
   debtorAccount?: {
     iban?: string;
   };
+  debtorAgent?: string; // BIC
+  ultimateDebtor?: string;
+  // An object or a one-element array depending on the bank
+  currencyExchange?: GCCurrencyExchange | GCCurrencyExchange[];
   bankTransactionCode?: string;
   proprietaryBankTransactionCode?: string;
   internalTransactionId?: string;
+  balanceAfterTransaction?: {
+    balanceAmount: {
+      amount: string;
+      currency: string;
+    };
+    balanceType?: string;
+  };
+  // Not part of the GoCardless payload: set from the array it was listed in
+  status?: 'booked' | 'pending';
 }
 
-export interface TransactionPage {
-  transactions: GCTransaction[];
-  next?: string;
-  total?: number;
-}
+export type TransactionPage = ProviderTransactionPage<GCTransaction>;
 
 export interface WebhookEvent {
   id: string;
@@ -62,11 +101,25 @@ export interface WebhookEvent {
   details?: Record<string, any>;
 }
 
-export class GoCardlessClient {
+export type WebhookRejection =
+  | 'no_secret_configured'
+  | 'missing_signature'
+  | 'malformed_signature'
+  | 'missing_timestamp'
+  | 'invalid_timestamp'
+  | 'stale_timestamp'
+  | 'signature_mismatch';
+
+export type WebhookVerification =
+  | { valid: true; secretIndex: number } // 0 is the current secret, then previous ones
+  | { valid: false; reason: WebhookRejection };
+
+export class GoCardlessClient implements BankProvider<GCTransaction> {
+  readonly name = config.gocardless.provider;
   private client: AxiosInstance;
   private auth: ReturnType<typeof getGCAuth>;
   private requisitionManager: ReturnType<typeof getRequisitionManager>;
-  private webhookSecret?: string;
+  private webhookSecrets: string[];
 
   constructor() {
     this.auth = getGCAuth();
@@ -80,7 +133,11 @@ export class GoCardlessClient {
       timeout: 30000,
     });
 
-    this.webhookSecret = config.gocardless.webhookSecret;
+    // Current secret first, previous ones stay valid while a rotation rolls out
+    this.webhookSecrets = [
+      config.gocardless.webhookSecret,
+      ...config.gocardless.webhookPreviousSecrets,
+    ].filter((secret): secret is string => !!secret);
 
     // Request interceptor for auth and logging
     this.client.interceptors.request.use(
@@ -116,11 +173,29 @@ export class GoCardlessClient {
     );
   }
 
-  async listAccounts(): Promise<GCAccount[]> {
+  async listAccountIds(): Promise<string[]> {
+    const requisitions = await this.requisitionManager.listRequisitions();
+    const accountIds = new Set<string>();
+
+    for (const req of requisitions.results) {
+      if (req.status === 'LN' && req.accounts) {
+        const owner = referenceOwner(req.reference);
+        for (const accountId of req.accounts) {
+          accountIds.add(accountId);
+          // Accounts belong to the user the requisition was created for
+          if (owner) await setAccountOwner(accountId, owner);
+        }
+      }
+    }
+
+    return [...accountIds];
+  }
+
+  async listAccounts(): Promise<ProviderAccount[]> {
     try {
       // First, get all linked requisitions
       const requisitions = await this.requisitionManager.listRequisitions();
-      const allAccounts: GCAccount[] = [];
+      const allAccounts: ProviderAccount[] = [];
       
       // Get accounts from linked requisitions
       for (const req of requisitions.results) {
@@ -129,8 +204,10 @@ export class GoCardlessClient {
             const account = await this.getAccount(accountId);
             if (account) {
               allAccounts.push(account);
-              // Map account to requisition
+              // Map account to requisition (and its owner)
               await this.requisitionManager.mapAccountToRequisition(accountId, req.id);
+              const owner = referenceOwner(req.reference);
+              if (owner) await setAccountOwner(accountId, owner);
             }
           }
         }
@@ -143,10 +220,10 @@ export class GoCardlessClient {
     }
   }
 
-  async getAccount(accountId: string): Promise<GCAccount | null> {
+  async getAccount(accountId: string): Promise<ProviderAccount | null> {
     try {
       const response = await this.client.get(`/api/v2/accounts/${accountId}/`);
-      return response.data;
+      return this.toProviderAccount(response.data as GCAccount);
     } catch (err: any) {
       if (err.response?.status === 404) {
         return null;
@@ -156,27 +233,42 @@ export class GoCardlessClient {
     }
   }
 
-  async getBalance(accountId: string): Promise<GCBalance | null> {
+  async getBalances(accountId: string): Promise<GCBalance[]> {
     try {
       const response = await this.client.get(`/api/v2/accounts/${accountId}/balances/`);
-      const balances = response.data.balances || [];
-      return balances[0] || null;
+      return response.data.balances || [];
     } catch (err: any) {
-      logger.error({ err, accountId }, 'Failed to get balance');
+      logger.error({ err, accountId }, 'Failed to get balances');
       // Re-throw rate limit errors so they can be handled properly
       if (err.response?.status === 429) {
         throw err;
       }
-      return null;
+      return [];
     }
   }
 
-  async getAccountDetails(accountId: string): Promise<any> {
+  async getAccountDetails(accountId: string): Promise<ProviderAccountDetails | null> {
     try {
       const response = await this.client.get(`/api/v2/accounts/${accountId}/details/`);
-      return response.data.account;
-    } catch (err) {
+      const account = response.data.account || {};
+      return {
+        name: account.name,
+        displayName: account.displayName,
+        ownerName: account.ownerName,
+        product: account.product,
+        cashAccountType: account.cashAccountType,
+        currency: account.currency,
+        iban: account.iban,
+        bban: account.bban,
+        bic: account.bic,
+        usage: account.usage,
+      };
+    } catch (err: any) {
       logger.error({ err, accountId }, 'Failed to get account details');
+      // Re-throw rate limit errors so they can be handled properly
+      if (err.response?.status === 429) {
+        throw err;
+      }
       return null;
     }
   }
@@ -199,9 +291,11 @@ export class GoCardlessClient {
       );
 
       // GoCardless returns transactions in booked and pending arrays
-      const transactions = [
-        ...(response.data.transactions?.booked || []),
-        ...(response.data.transactions?.pending || [])
+      const booked: GCTransaction[] = response.data.transactions?.booked || [];
+      const pending: GCTransaction[] = response.data.transactions?.pending || [];
+      const transactions: GCTransaction[] = [
+        ...booked.map(tx => ({ ...tx, status: 'booked' as const })),
+        ...pending.map(tx => ({ ...tx, status: 'pending' as const })),
       ];
 
       return {
@@ -217,63 +311,138 @@ export class GoCardlessClient {
 
   async *listTransactionPages(
     accountId: string,
-    options: {
-      date_from?: string;
-      date_to?: string;
-    } = {}
+    range: TransactionRange = {}
   ): AsyncGenerator<TransactionPage> {
     // GoCardless doesn't use cursor pagination for transactions
     // It returns all transactions within the date range in one call
     const page = await this.listTransactions(accountId, {
-      date_from: options.date_from,
-      date_to: options.date_to,
+      date_from: range.fromDate,
+      date_to: range.toDate,
     });
 
     yield page;
   }
 
+  /**
+   * History limit from the agreement (max_historical_days) and the
+   * institution (transaction_total_days), whichever is lower
+   */
+  async getHistoryLimitDays(accountId: string): Promise<number | null> {
+    let requisitionId = await this.requisitionManager.getAccountRequisition(accountId);
+    if (!requisitionId) {
+      const requisitions = await this.requisitionManager.listRequisitions();
+      requisitionId = requisitions.results.find(r => r.accounts?.includes(accountId))?.id || null;
+      if (!requisitionId) return null;
+      await this.requisitionManager.mapAccountToRequisition(accountId, requisitionId);
+    }
+
+    const requisition = await this.requisitionManager.getRequisition(requisitionId);
+    if (!requisition) return null;
+
+    const [agreement, institution] = await Promise.all([
+      requisition.agreement ? this.requisitionManager.getAgreement(requisition.agreement) : null,
+      this.requisitionManager.getInstitution(requisition.institution_id),
+    ]);
+
+    const limits = [
+      agreement?.max_historical_days,
+      institution ? parseInt(institution.transaction_total_days, 10) : undefined,
+    ].filter((days): days is number => typeof days === 'number' && days > 0);
+
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  async createLink(request: LinkRequest): Promise<ProviderLink> {
+    const agreement = await this.requisitionManager.createAgreement(
+      request.institutionId,
+      request.maxHistoricalDays,
+      request.accessValidForDays,
+      request.accessScope
+    );
+
+    const requisition = await this.requisitionManager.createRequisition(
+      request.institutionId,
+      request.redirectUrl,
+      agreement.id,
+      request.reference,
+      request.userLanguage
+    );
+
+    return {
+      id: requisition.id,
+      link: requisition.link,
+      status: requisition.status,
+      reference: requisition.reference,
+    };
+  }
+
+  /**
+   * Verify an HMAC-SHA256 webhook signature over the raw request body. The
+   * signed payload is `<timestamp>.<body>` and deliveries outside the
+   * configured tolerance are rejected; only a tolerance of 0 accepts
+   * deliveries without a timestamp (signed over the body alone).
+   */
   verifyWebhookSignature(
-    body: string,
-    signature: string
-  ): boolean {
-    if (!this.webhookSecret) {
-      logger.warn('No webhook secret configured');
-      return false;
+    rawBody: Buffer | string,
+    signature: string | undefined,
+    timestamp?: string
+  ): WebhookVerification {
+    if (this.webhookSecrets.length === 0) {
+      return { valid: false, reason: 'no_secret_configured' };
     }
-    
-    try {
-      const expectedSignature = crypto
-        .createHmac('sha256', this.webhookSecret)
-        .update(body)
-        .digest('hex');
-
-      return crypto.timingSafeEqual(
-        Buffer.from(signature),
-        Buffer.from(expectedSignature)
-      );
-    } catch (err) {
-      logger.error({ err }, 'Failed to verify webhook signature');
-      return false;
+
+    if (!signature) {
+      return { valid: false, reason: 'missing_signature' };
+    }
+
+    const hex = signature.trim().replace(/^sha256=/, '');
+    if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+      return { valid: false, reason: 'malformed_signature' };
+    }
+
+    let payload = Buffer.isBuffer(rawBody) ? rawBody : Buffer.from(rawBody);
+    const tolerance = config.gocardless.webhookToleranceSeconds;
+
+    // Without a timestamp a captured delivery could be replayed at any time
+    if (timestamp === undefined && tolerance > 0) {
+      return { valid: false, reason: 'missing_timestamp' };
+    }
+
+    if (timestamp !== undefined) {
+      const sentAt = Number(timestamp);
+      if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(sentAt)) {
+        return { valid: false, reason: 'invalid_timestamp' };
+      }
+
+      if (tolerance > 0 && Math.abs(Date.now() / 1000 - sentAt) > tolerance) {
+        return { valid: false, reason: 'stale_timestamp' };
+      }
+
+      payload = Buffer.concat([Buffer.from(`${timestamp}.`), payload]);
     }
+
+    // Both digests are 32 bytes, so timingSafeEqual cannot throw
+    const received = Buffer.from(hex, 'hex');
+    const secretIndex = this.webhookSecrets.findIndex(secret =>
+      crypto.timingSafeEqual(
+        received,
+        crypto.createHmac('sha256', secret).update(payload).digest()
+      )
+    );
+
+    return secretIndex === -1
+      ? { valid: false, reason: 'signature_mismatch' }
+      : { valid: true, secretIndex };
   }
 
-  normalizeTransaction(tx: GCTransaction): {
-    externalRef: string;
-    amount: number;
-    direction: 'in' | 'out';
-    description: string;
-    counterparty: {
-      name?: string;
-      iban?: string;
-    };
-  } {
+  normalizeTransaction(tx: GCTransaction): NormalizedTransaction {
     const amount = Math.abs(parseFloat(tx.transactionAmount.amount));
     const direction = parseFloat(tx.transactionAmount.amount) >= 0 ? 'in' : 'out';
     
     // Build external reference
     const externalRef = tx.internalTransactionId || tx.transactionId;
     
-    // Extract description
+    // Extract description (part of the content fingerprint: keep stable)
     const description = tx.remittanceInformationUnstructured || 
                        tx.remittanceInformationStructured || 
                        '';
@@ -283,17 +452,108 @@ export class GoCardlessClient {
     if (direction === 'in') {
       counterparty.name = tx.debtorName;
       counterparty.iban = tx.debtorAccount?.iban;
+      counterparty.bic = tx.debtorAgent;
     } else {
       counterparty.name = tx.creditorName;
       counterparty.iban = tx.creditorAccount?.iban;
+      counterparty.bic = tx.creditorAgent;
     }
 
+    const exchange = Array.isArray(tx.currencyExchange) ? tx.currencyExchange[0] : tx.currencyExchange;
+    const original = exchange && this.toOriginalAmount(exchange, amount, tx.transactionAmount.currency);
+    const remittance = tx.remittanceInformationUnstructuredArray ||
+      (tx.remittanceInformationUnstructured ? [tx.remittanceInformationUnstructured] : undefined);
+
+    // Pending entries frequently lack a booking date
+    const date = tx.bookingDate || tx.bookingDateTime || tx.valueDate;
+
     return {
       externalRef,
       amount,
+      currency: tx.transactionAmount.currency,
       direction,
+      status: tx.status || 'booked',
+      bookedAt: date || new Date().toISOString().split('T')[0],
+      undated: !date,
+      valueDate: tx.valueDate,
       description,
+      reference: tx.remittanceInformationStructured || tx.remittanceInformationStructuredArray?.[0],
       counterparty,
+      details: {
+        entryReference: tx.entryReference,
+        endToEndId: tx.endToEndId,
+        mandateId: tx.mandateId,
+        creditorId: tx.creditorId,
+        merchantCategoryCode: tx.merchantCategoryCode,
+        currencyExchange: exchange && {
+          sourceCurrency: exchange.sourceCurrency,
+          targetCurrency: exchange.targetCurrency,
+          unitCurrency: exchange.unitCurrency,
+          exchangeRate: exchange.exchangeRate ? parseFloat(exchange.exchangeRate) : undefined,
+          quotationDate: exchange.quotationDate,
+          instructedAmount: exchange.instructedAmount && {
+            amount: Math.abs(parseFloat(exchange.instructedAmount.amount)),
+            currency: exchange.instructedAmount.currency,
+          },
+        },
+        ...original,
+        balanceAfterTransaction: tx.balanceAfterTransaction && {
+          amount: parseFloat(tx.balanceAfterTransaction.balanceAmount.amount),
+          currency: tx.balanceAfterTransaction.balanceAmount.currency,
+          balanceType: tx.balanceAfterTransaction.balanceType,
+        },
+        additionalInformation: tx.additionalInformation,
+        remittanceInformation: remittance,
+        ultimateCreditor: tx.ultimateCreditor,
+        ultimateDebtor: tx.ultimateDebtor,
+      },
+      metadata: {
+        bankTransactionCode: tx.bankTransactionCode,
+        proprietaryCode: tx.proprietaryBankTransactionCode,
+      },
+    };
+  }
+
+  /**
+   * Original amount of a foreign-currency transaction: the instructed amount
+   * when the bank sends it, else derived from the quoted rate (which needs
+   * unitCurrency to tell its direction)
+   */
+  private toOriginalAmount(
+    exchange: GCCurrencyExchange,
+    amount: number,
+    currency: string
+  ): { originalAmount: number; originalCurrency: string; exchangeRate: number } | undefined {
+    const instructed = exchange.instructedAmount;
+    if (instructed && instructed.currency !== currency) {
+      const originalAmount = Math.abs(parseFloat(instructed.amount));
+      if (!originalAmount) return undefined;
+      return { originalAmount, originalCurrency: instructed.currency, exchangeRate: amount / originalAmount };
+    }
+
+    const source = exchange.sourceCurrency;
+    const quoted = exchange.exchangeRate ? parseFloat(exchange.exchangeRate) : 0;
+    if (!source || source === currency || !quoted) return undefined;
+    if (exchange.unitCurrency !== source && exchange.unitCurrency !== currency) return undefined;
+
+    // The quote is in units of the other currency per unitCurrency
+    const exchangeRate = exchange.unitCurrency === source ? quoted : 1 / quoted;
+    return {
+      originalAmount: Math.round((amount / exchangeRate) * 100) / 100,
+      originalCurrency: source,
+      exchangeRate,
+    };
+  }
+
+  private toProviderAccount(account: GCAccount): ProviderAccount {
+    return {
+      id: account.id,
+      iban: account.iban,
+      institutionId: account.institution_id,
+      ownerName: account.owner_name,
+      status: account.status === 'READY'
+        ? 'active'
+        : account.status === 'SUSPENDED' ? 'suspended' : 'inactive',
     };
   }
 }
@@ -0,0 +1,205 @@
+import { Pool } from 'pg';
+import { logger } from '../logger';
+
+// Arbitrary key so concurrent instances don't migrate at the same time
+const MIGRATION_LOCK_ID = 74210001;
+
+export interface Migration {
+  id: number;
+  name: string;
+  sql: string;
+}
+
+/**
+ * Schema migrations, applied in order. Never edit a released migration,
+ * append a new one instead.
+ */
+export const migrations: Migration[] = [
+  {
+    id: 1,
+    name: 'create_accounts_transactions_balances',
+    sql: `
+      CREATE TABLE IF NOT EXISTS accounts (
+        account_id TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        iban TEXT,
+        institution_id TEXT,
+        owner_name TEXT,
+        currency TEXT,
+        status TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+
+      CREATE TABLE IF NOT EXISTS transactions (
+        tx_id TEXT PRIMARY KEY,
+        external_ref TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        asset TEXT NOT NULL,
+        amount NUMERIC(20, 4) NOT NULL,
+        fee NUMERIC(20, 4) NOT NULL DEFAULT 0,
+        direction TEXT NOT NULL CHECK (direction IN ('in', 'out')),
+        booked_at TIMESTAMPTZ NOT NULL,
+        value_date TIMESTAMPTZ,
+        description TEXT,
+        reference TEXT,
+        counterparty_name TEXT,
+        counterparty_iban TEXT,
+        counterparty_bic TEXT,
+        data JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+
+      CREATE INDEX IF NOT EXISTS transactions_account_booked_idx
+        ON transactions (account_id, booked_at DESC, tx_id DESC);
+      CREATE INDEX IF NOT EXISTS transactions_external_ref_idx
+        ON transactions (account_id, external_ref);
+
+      CREATE TABLE IF NOT EXISTS balances (
+        id BIGSERIAL PRIMARY KEY,
+        account_id TEXT NOT NULL,
+        balance_type TEXT NOT NULL,
+        amount NUMERIC(20, 4) NOT NULL,
+        currency TEXT NOT NULL,
+        reference_date DATE,
+        fetched_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+
+      CREATE INDEX IF NOT EXISTS balances_account_fetched_idx
+        ON balances (account_id, fetched_at DESC);
+    `,
+  },
+  {
+    id: 2,
+    name: 'add_transaction_status_and_search_indexes',
+    sql: `
+      ALTER TABLE transactions
+        ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'booked';
+
+      CREATE INDEX IF NOT EXISTS transactions_account_amount_idx
+        ON transactions (account_id, amount DESC, tx_id DESC);
+      CREATE INDEX IF NOT EXISTS transactions_booked_idx
+        ON transactions (booked_at DESC, tx_id DESC);
+      CREATE INDEX IF NOT EXISTS transactions_counterparty_iban_idx
+        ON transactions (counterparty_iban);
+    `,
+  },
+  {
+    id: 3,
+    name: 'create_transaction_aliases',
+    sql: `
+      CREATE TABLE IF NOT EXISTS transaction_aliases (
+        alias_tx_id TEXT PRIMARY KEY,
+        tx_id TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `,
+  },
+  {
+    id: 4,
+    name: 'add_account_user',
+    sql: `
+      ALTER TABLE accounts
+        ADD COLUMN IF NOT EXISTS user_id TEXT;
+
+      CREATE INDEX IF NOT EXISTS accounts_user_idx
+        ON accounts (user_id);
+    `,
+  },
+  {
+    id: 5,
+    name: 'create_balance_daily',
+    sql: `
+      CREATE TABLE IF NOT EXISTS balance_daily (
+        account_id TEXT NOT NULL,
+        balance_type TEXT NOT NULL,
+        day DATE NOT NULL,
+        amount NUMERIC(20, 4) NOT NULL,
+        currency TEXT NOT NULL,
+        fetched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY (account_id, balance_type, day)
+      );
+    `,
+  },
+  {
+    id: 6,
+    name: 'create_reconciliation_mismatches',
+    sql: `
+      CREATE TABLE IF NOT EXISTS reconciliation_mismatches (
+        id BIGSERIAL PRIMARY KEY,
+        mismatch_key TEXT NOT NULL UNIQUE,
+        account_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        from_day DATE NOT NULL,
+        to_day DATE NOT NULL,
+        tx_id TEXT,
+        currency TEXT NOT NULL,
+        expected NUMERIC(20, 4) NOT NULL,
+        actual NUMERIC(20, 4) NOT NULL,
+        difference NUMERIC(20, 4) NOT NULL,
+        detected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        resolved_at TIMESTAMPTZ
+      );
+
+      CREATE INDEX IF NOT EXISTS reconciliation_mismatches_account_idx
+        ON reconciliation_mismatches (account_id, to_day DESC);
+    `,
+  },
+  {
+    id: 7,
+    name: 'add_account_details',
+    sql: `
+      ALTER TABLE accounts
+        ADD COLUMN IF NOT EXISTS name TEXT,
+        ADD COLUMN IF NOT EXISTS product TEXT,
+        ADD COLUMN IF NOT EXISTS cash_account_type TEXT,
+        ADD COLUMN IF NOT EXISTS bban TEXT,
+        ADD COLUMN IF NOT EXISTS details_fetched_at TIMESTAMPTZ;
+    `,
+  },
+];
+
+export async function runMigrations(pool: Pool): Promise<void> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+
+    const { rows } = await client.query<{ id: number }>('SELECT id FROM schema_migrations');
+    const applied = new Set(rows.map(row => row.id));
+
+    for (const migration of migrations) {
+      if (applied.has(migration.id)) continue;
+
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (id, name) VALUES ($1, $2)',
+          [migration.id, migration.name]
+        );
+        await client.query('COMMIT');
+
+        logger.info({ id: migration.id, name: migration.name }, 'Applied migration');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        logger.error({ err, id: migration.id, name: migration.name }, 'Migration failed');
+        throw err;
+      }
+    }
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => undefined);
+    client.release();
+  }
+}
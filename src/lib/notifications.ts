@@ -126,4 +126,40 @@ export async function sendBalanceSyncNotification(data: {
   } catch (err: any) {
     logger.error({ err: err.message || err, data, url: process.env.COMM_SERVICE_URL }, 'Failed to send balance sync notification');
   }
-}
\ No newline at end of file
+}
+
+export async function sendConsentExpiryNotification(data: {
+  requisitionId: string;
+  institutionId: string;
+  expiresAt: string;
+  daysRemaining: number;
+  expired: boolean;
+  accountIds: string[];
+}): Promise<void> {
+  const api = getCommApi();
+  if (!api) return;
+
+  try {
+    await api.v1MessagesSendPost({
+      channel: 'telegram',
+      template_key: data.expired ? 'requisition.expired' : 'requisition.expiring',
+      locale: 'en',
+      data: {
+        title: data.expired ? 'Bank Consent Expired' : 'Bank Consent Expiring',
+        body: data.expired
+          ? `Consent for ${data.institutionId} expired on ${data.expiresAt}; renew requisition ${data.requisitionId} to resume syncing`
+          : `Consent for ${data.institutionId} expires in ${data.daysRemaining} days (${data.expiresAt}); renew requisition ${data.requisitionId}`,
+        requisitionId: data.requisitionId,
+        institutionId: data.institutionId,
+        expiresAt: data.expiresAt,
+        daysRemaining: data.daysRemaining,
+        accountIds: data.accountIds
+      },
+      to: {} // Empty - uses admin IDs from comm-service
+    });
+    
+    logger.info({ requisitionId: data.requisitionId, expired: data.expired }, 'Consent expiry notification sent');
+  } catch (err: any) {
+    logger.error({ err: err.message || err, requisitionId: data.requisitionId }, 'Failed to send consent expiry notification');
+  }
+}
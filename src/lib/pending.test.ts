@@ -0,0 +1,54 @@
+import { findPendingMatch } from './pending';
+import { BankTransaction } from '../types';
+
+function tx(overrides: Partial<BankTransaction> = {}): BankTransaction {
+  return {
+    txId: 'tx',
+    externalRef: '',
+    accountId: 'acc-1',
+    source: 'bank',
+    provider: 'gocardless',
+    asset: 'EUR',
+    amount: 20,
+    fee: 0,
+    direction: 'out',
+    status: 'pending',
+    bookedAt: '2024-03-01',
+    ...overrides,
+  };
+}
+
+function pendingOf(...entries: BankTransaction[]): Map<string, BankTransaction> {
+  return new Map(entries.map(entry => [entry.txId, entry]));
+}
+
+describe('findPendingMatch', () => {
+  const booked = tx({ txId: 'booked', status: 'booked', bookedAt: '2024-03-03' });
+
+  it('matches a shared bank reference regardless of amount', () => {
+    const hold = tx({ txId: 'hold', externalRef: 'ref-1', amount: 25 });
+    const match = findPendingMatch({ ...booked, externalRef: 'ref-1' }, pendingOf(tx({ txId: 'other' }), hold));
+    expect(match?.txId).toBe('hold');
+  });
+
+  it('matches same amount, currency and direction within the window', () => {
+    expect(findPendingMatch(booked, pendingOf(tx({ txId: 'hold' })))?.txId).toBe('hold');
+  });
+
+  it('prefers the closest earlier date', () => {
+    const older = tx({ txId: 'older', bookedAt: '2024-02-27' });
+    const newer = tx({ txId: 'newer', bookedAt: '2024-03-02' });
+    expect(findPendingMatch(booked, pendingOf(older, newer))?.txId).toBe('newer');
+  });
+
+  it('ignores entries that differ or fall outside the window', () => {
+    const pending = pendingOf(
+      tx({ txId: 'amount', amount: 21 }),
+      tx({ txId: 'currency', asset: 'USD' }),
+      tx({ txId: 'direction', direction: 'in' }),
+      tx({ txId: 'later', bookedAt: '2024-03-04' }),
+      tx({ txId: 'stale', bookedAt: '2024-02-20' })
+    );
+    expect(findPendingMatch(booked, pending)).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { getRedis } from './redis';
+import { getTransactionAlias, saveTransactionAlias } from './repository';
+import { logger } from '../logger';
+import { BankTransaction } from '../types';
+
+const PENDING_PREFIX = 'gc:tx:pending:';
+const SETTLED_PREFIX = 'gc:tx:settled:'; // Hash per account: booked txId -> pending txId it is stored under
+const PENDING_MATCH_WINDOW_DAYS = 7; // Card holds usually settle within a few days
+
+/**
+ * Pending transactions of an account, keyed by txId
+ */
+export async function getPendingTransactions(
+  accountId: string
+): Promise<Map<string, BankTransaction>> {
+  const redis = getRedis();
+  const entries = await redis.hgetall(`${PENDING_PREFIX}${accountId}`);
+  const pending = new Map<string, BankTransaction>();
+
+  for (const [key, value] of Object.entries(entries)) {
+    try {
+      pending.set(key, JSON.parse(value) as BankTransaction);
+    } catch (err) {
+      logger.error({ err, accountId, key }, 'Corrupt pending transaction entry');
+    }
+  }
+
+  return pending;
+}
+
+export async function savePendingTransaction(tx: BankTransaction): Promise<void> {
+  const redis = getRedis();
+  await redis.hset(`${PENDING_PREFIX}${tx.accountId}`, tx.txId, JSON.stringify(tx));
+}
+
+export async function removePendingTransaction(
+  accountId: string,
+  txId: string
+): Promise<void> {
+  const redis = getRedis();
+  await redis.hdel(`${PENDING_PREFIX}${accountId}`, txId);
+}
+
+/**
+ * Remember that a booked transaction settled a pending entry and lives on
+ * under the pending txId. Kept without expiry (and in the durable store), so
+ * re-reading the booked entry later never ingests it a second time.
+ */
+export async function recordSettlement(
+  accountId: string,
+  bookedTxId: string,
+  pendingTxId: string
+): Promise<void> {
+  const redis = getRedis();
+  await redis.hset(`${SETTLED_PREFIX}${accountId}`, bookedTxId, pendingTxId);
+  await saveTransactionAlias(bookedTxId, pendingTxId, accountId);
+}
+
+/**
+ * txId a booked transaction was stored under when it settled a pending
+ * entry (null if it never did)
+ */
+export async function getSettledTxId(accountId: string, bookedTxId: string): Promise<string | null> {
+  const redis = getRedis();
+  return (await redis.hget(`${SETTLED_PREFIX}${accountId}`, bookedTxId)) ||
+    getTransactionAlias(bookedTxId);
+}
+
+/**
+ * Find the pending entry a booked transaction settles.
+ *
+ * A shared bank reference wins outright; otherwise the pending entry must
+ * have the same direction, currency and amount and a date no later than the
+ * booking (within the match window). The closest date wins.
+ */
+export function findPendingMatch(
+  booked: BankTransaction,
+  pending: Map<string, BankTransaction>
+): BankTransaction | null {
+  if (booked.externalRef) {
+    for (const tx of pending.values()) {
+      if (tx.externalRef === booked.externalRef) {
+        return tx;
+      }
+    }
+  }
+
+  const bookedTime = Date.parse(booked.bookedAt);
+  const windowMs = PENDING_MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  let best: { tx: BankTransaction; distance: number } | null = null;
+
+  for (const tx of pending.values()) {
+    if (
+      tx.direction !== booked.direction ||
+      tx.asset !== booked.asset ||
+      tx.amount !== booked.amount
+    ) {
+      continue;
+    }
+
+    const distance = bookedTime - Date.parse(tx.bookedAt);
+    if (distance < 0 || distance > windowMs) continue;
+
+    if (!best || distance < best.distance) {
+      best = { tx, distance };
+    }
+  }
+
+  return best ? best.tx : null;
+}
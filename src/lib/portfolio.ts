@@ -0,0 +1,200 @@
+import { ProviderBalance, primaryBalance } from './provider';
+import { resolveAccountId } from './accountIdentity';
+import { isDatabaseEnabled } from './db';
+import { convertAmount } from './fx';
+import { getRedis } from './redis';
+import { BalancePoint, getLatestBalances, queryBalanceHistory } from './repository';
+
+export interface PortfolioAccount {
+  accountId: string;
+  internalId: string;
+  currency: string;
+  balance: number;
+  balanceType: string;
+  asOf: string; // Reference date of the balance, or when it was fetched
+  convertedBalance?: number; // Unset when no rate is known for the currency
+  rate?: number;
+  rateDate?: string;
+}
+
+export interface Portfolio {
+  baseCurrency: string;
+  total: number; // Sum of the converted balances
+  accounts: PortfolioAccount[];
+  byCurrency: { currency: string; balance: number; convertedBalance?: number }[];
+  missingRates: string[]; // Currencies left out of the total
+  unavailable: string[]; // Accounts without a known balance
+}
+
+export interface PortfolioHistoryPoint {
+  date: string;
+  total: number;
+  complete: boolean; // False when a balance could not be converted
+}
+
+function toProviderBalance(point: BalancePoint): ProviderBalance {
+  return {
+    balanceAmount: { amount: String(point.amount), currency: point.currency },
+    balanceType: point.balanceType,
+    referenceDate: point.day,
+  };
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Latest primary balance of an account: the cached fetch, else the newest
+ * day in the durable store
+ */
+async function currentBalance(
+  accountId: string,
+  internalId: string
+): Promise<{ balance: ProviderBalance; asOf: string } | null> {
+  const cached = await getRedis().get(`balance:${accountId}`);
+  if (cached) {
+    const data = JSON.parse(cached);
+    if (data.balance) {
+      return {
+        balance: data.balance,
+        asOf: data.balance.referenceDate || new Date(data.timestamp).toISOString(),
+      };
+    }
+  }
+
+  if (!isDatabaseEnabled()) return null;
+
+  const points = await getLatestBalances(internalId);
+  const latestDay = points.map(point => point.day).sort().pop();
+  const balance = primaryBalance(points.filter(point => point.day === latestDay).map(toProviderBalance));
+
+  return balance ? { balance, asOf: balance.referenceDate! } : null;
+}
+
+/**
+ * Current balances of the given accounts, converted into a base currency
+ * at the latest known rates
+ */
+export async function buildPortfolio(accountIds: string[], baseCurrency: string): Promise<Portfolio> {
+  const accounts: PortfolioAccount[] = [];
+  const seen = new Set<string>();
+  const unavailable = new Map<string, string>(); // Internal ID -> account ID
+
+  for (const accountId of accountIds) {
+    // A re-linked account shows up under its old and new IDs
+    const internalId = await resolveAccountId(accountId);
+    if (seen.has(internalId)) continue;
+
+    const current = await currentBalance(accountId, internalId);
+    if (!current) {
+      unavailable.set(internalId, accountId);
+      continue;
+    }
+    seen.add(internalId);
+
+    const balance = parseFloat(current.balance.balanceAmount.amount);
+    const currency = current.balance.balanceAmount.currency;
+    const converted = await convertAmount(balance, currency, baseCurrency);
+
+    accounts.push({
+      accountId,
+      internalId,
+      currency,
+      balance,
+      balanceType: current.balance.balanceType,
+      asOf: current.asOf,
+      convertedBalance: converted?.amount,
+      rate: converted?.rate,
+      rateDate: converted?.rateDate,
+    });
+  }
+
+  const currencies = [...new Set(accounts.map(account => account.currency))].sort();
+  const byCurrency = currencies.map(currency => {
+    const held = accounts.filter(account => account.currency === currency);
+    const convertible = held.every(account => account.convertedBalance !== undefined);
+    return {
+      currency,
+      balance: round(held.reduce((sum, account) => sum + account.balance, 0)),
+      convertedBalance: convertible
+        ? round(held.reduce((sum, account) => sum + account.convertedBalance!, 0))
+        : undefined,
+    };
+  });
+
+  return {
+    baseCurrency,
+    total: round(byCurrency.reduce((sum, entry) => sum + (entry.convertedBalance ?? 0), 0)),
+    accounts,
+    byCurrency,
+    missingRates: byCurrency.filter(entry => entry.convertedBalance === undefined).map(entry => entry.currency),
+    unavailable: [...unavailable].filter(([internalId]) => !seen.has(internalId)).map(([, accountId]) => accountId),
+  };
+}
+
+/**
+ * Daily total of the accounts' primary balances in a base currency, each day
+ * converted at that day's rate. An account's last balance is carried forward
+ * over days it has none. Needs the durable store.
+ */
+export async function buildPortfolioHistory(
+  accountIds: string[],
+  baseCurrency: string,
+  fromDate?: string,
+  toDate?: string
+): Promise<PortfolioHistoryPoint[]> {
+  // History is kept under internal IDs
+  const internalIds = [...new Set(await Promise.all(accountIds.map(resolveAccountId)))];
+  const series = new Map<string, Map<string, ProviderBalance>>();
+  const days = new Set<string>();
+
+  for (const internalId of internalIds) {
+    const byDay = new Map<string, BalancePoint[]>();
+    for (const point of await queryBalanceHistory({ accountId: internalId, fromDate, toDate })) {
+      byDay.set(point.day, [...(byDay.get(point.day) || []), point]);
+    }
+
+    const primary = new Map<string, ProviderBalance>();
+    for (const [day, points] of byDay) {
+      const balance = primaryBalance(points.map(toProviderBalance));
+      if (balance) {
+        primary.set(day, balance);
+        days.add(day);
+      }
+    }
+    series.set(internalId, primary);
+  }
+
+  const rates = new Map<string, number | null>();
+  const latest = new Map<string, ProviderBalance>();
+  const history: PortfolioHistoryPoint[] = [];
+
+  for (const day of [...days].sort()) {
+    let total = 0;
+    let complete = true;
+
+    for (const [internalId, primary] of series) {
+      const balance = primary.get(day) || latest.get(internalId);
+      if (!balance) continue;
+      latest.set(internalId, balance);
+
+      const currency = balance.balanceAmount.currency;
+      const rateKey = `${currency}:${day}`;
+      if (!rates.has(rateKey)) {
+        rates.set(rateKey, (await convertAmount(1, currency, baseCurrency, day))?.rate ?? null);
+      }
+
+      const rate = rates.get(rateKey);
+      if (rate == null) {
+        complete = false;
+        continue;
+      }
+      total += parseFloat(balance.balanceAmount.amount) * rate;
+    }
+
+    history.push({ date: day, total: round(total), complete });
+  }
+
+  return history;
+}
@@ -0,0 +1,207 @@
+import { getRedis } from './redis';
+import { logger } from '../logger';
+import { config } from '../config';
+import { AccountInfo, TransactionDetails } from '../types';
+
+const ACCOUNT_PROVIDER_PREFIX = 'bank:account:provider:';
+
+export interface ProviderAccount {
+  id: string;
+  iban: string;
+  institutionId?: string;
+  ownerName?: string;
+  status: AccountInfo['status'];
+}
+
+/**
+ * Descriptive account data, fetched separately from the account itself
+ */
+export interface ProviderAccountDetails {
+  name?: string; // Set by the bank or the account holder
+  displayName?: string;
+  ownerName?: string;
+  product?: string; // Bank's product name (e.g. "Cuenta Online")
+  cashAccountType?: string; // ISO 20022 code: CACC (current), SVGS (savings), CARD, ...
+  currency?: string;
+  iban?: string;
+  bban?: string;
+  bic?: string;
+  usage?: 'PRIV' | 'ORGA';
+}
+
+export interface ProviderBalance {
+  balanceAmount: {
+    amount: string;
+    currency: string;
+  };
+  balanceType: string;
+  referenceDate?: string;
+}
+
+// Balance types preferred for a single headline figure, best first
+const PRIMARY_BALANCE_TYPES = ['interimAvailable', 'expected', 'closingBooked', 'interimBooked'];
+
+/**
+ * The balance to show when only one figure is wanted (null if none)
+ */
+export function primaryBalance(balances: ProviderBalance[]): ProviderBalance | null {
+  for (const type of PRIMARY_BALANCE_TYPES) {
+    const match = balances.find(balance => balance.balanceType === type);
+    if (match) return match;
+  }
+  return balances[0] || null;
+}
+
+export interface TransactionRange {
+  fromDate?: string;
+  toDate?: string;
+}
+
+export interface ProviderTransactionPage<T = unknown> {
+  transactions: T[];
+  next?: string;
+  total?: number;
+}
+
+export interface NormalizedTransaction {
+  externalRef: string;
+  amount: number;
+  currency: string;
+  direction: 'in' | 'out';
+  status: 'pending' | 'booked';
+  bookedAt: string;
+  undated?: boolean; // The bank gave no date: bookedAt is the day it was read
+  valueDate?: string;
+  description: string;
+  reference?: string; // Structured payment reference (e.g. an RF creditor reference)
+  counterparty: {
+    name?: string;
+    iban?: string;
+    bic?: string;
+  };
+  details?: TransactionDetails;
+  metadata?: Record<string, any>;
+}
+
+export interface LinkRequest {
+  institutionId: string;
+  redirectUrl: string;
+  reference?: string;
+  userLanguage?: string;
+  // Consent terms, already validated against the institution
+  maxHistoricalDays?: number;
+  accessValidForDays?: number;
+  accessScope?: string[];
+}
+
+export interface ProviderLink {
+  id: string;
+  link: string;
+  status: string;
+  reference: string;
+}
+
+/**
+ * A source of bank data (aggregator API, file import, ...).
+ *
+ * The sync pipeline only talks to providers through this interface, so
+ * adding a source means implementing it and calling registerProvider().
+ */
+export interface BankProvider<TTransaction = any> {
+  readonly name: string;
+
+  /**
+   * Cheap enumeration of the account IDs this provider can sync
+   */
+  listAccountIds(): Promise<string[]>;
+  listAccounts(): Promise<ProviderAccount[]>;
+  getAccount(accountId: string): Promise<ProviderAccount | null>;
+  /**
+   * Every balance type the account reports (closingBooked, interimAvailable, ...)
+   */
+  getBalances(accountId: string): Promise<ProviderBalance[]>;
+  getAccountDetails(accountId: string): Promise<ProviderAccountDetails | null>;
+  listTransactionPages(
+    accountId: string,
+    range?: TransactionRange
+  ): AsyncGenerator<ProviderTransactionPage<TTransaction>>;
+  normalizeTransaction(tx: TTransaction): NormalizedTransaction;
+
+  /**
+   * How many days of history the account exposes (null if unknown)
+   */
+  getHistoryLimitDays?(accountId: string): Promise<number | null>;
+
+  /**
+   * Start a link/consent flow with an institution (if supported)
+   */
+  createLink?(request: LinkRequest): Promise<ProviderLink>;
+}
+
+const providers = new Map<string, BankProvider>();
+
+export function registerProvider(provider: BankProvider): void {
+  providers.set(provider.name, provider);
+  logger.info({ provider: provider.name }, 'Bank provider registered');
+}
+
+export function listProviders(): BankProvider[] {
+  return [...providers.values()];
+}
+
+export function getProvider(name: string): BankProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown bank provider: ${name}`);
+  }
+  return provider;
+}
+
+/**
+ * Select the provider used to sync an account
+ */
+export async function setAccountProvider(
+  accountId: string,
+  providerName: string
+): Promise<void> {
+  // Fail fast on unknown providers
+  getProvider(providerName);
+
+  const redis = getRedis();
+  await redis.set(`${ACCOUNT_PROVIDER_PREFIX}${accountId}`, providerName);
+
+  logger.info({ accountId, provider: providerName }, 'Account provider set');
+}
+
+export async function getAccountProviderName(accountId: string): Promise<string> {
+  const redis = getRedis();
+  const name = await redis.get(`${ACCOUNT_PROVIDER_PREFIX}${accountId}`);
+  return name || config.providers.default;
+}
+
+export async function getAccountProvider(accountId: string): Promise<BankProvider> {
+  return getProvider(await getAccountProviderName(accountId));
+}
+
+/**
+ * List every account ID known to the registered providers, remembering
+ * which provider discovered it unless one was explicitly selected.
+ */
+export async function listLinkedAccountIds(): Promise<string[]> {
+  const redis = getRedis();
+  const accountIds = new Set<string>();
+
+  for (const provider of listProviders()) {
+    try {
+      const ids = await provider.listAccountIds();
+      for (const accountId of ids) {
+        accountIds.add(accountId);
+        await redis.set(`${ACCOUNT_PROVIDER_PREFIX}${accountId}`, provider.name, 'NX');
+      }
+    } catch (err) {
+      logger.error({ err, provider: provider.name }, 'Failed to list provider accounts');
+    }
+  }
+
+  return [...accountIds];
+}
@@ -0,0 +1,150 @@
+import { BalanceAfterEntry, BalancePoint } from './repository';
+
+let cursor: { sinceISO: string; resumeFrom?: string; updatedAt: string } | null;
+let snapshots: BalancePoint[];
+let entries: BalanceAfterEntry[];
+let flows: Record<string, number>;
+const recorded = new Set<string>();
+const listDatedBalances = jest.fn();
+const resolveReconciliationMismatches = jest.fn();
+const emit = jest.fn();
+
+jest.mock('./events', () => ({ emit: (...args: unknown[]) => emit(...args) }));
+jest.mock('./cursor', () => ({ getCursor: async () => cursor }));
+jest.mock('./db', () => ({ isDatabaseEnabled: () => true }));
+jest.mock('./provider', () => ({}));
+jest.mock('./accountIdentity', () => ({}));
+jest.mock('./repository', () => ({
+  listDatedBalances: (...args: unknown[]) => listDatedBalances(...args),
+  listBalanceAfterEntries: async () => entries,
+  sumBookedFlow: async (_accountId: string, afterDay: string, throughDay: string) => flows[`${afterDay}:${throughDay}`] ?? 0,
+  recordReconciliationMismatch: async ({ key }: { key: string }) => {
+    if (recorded.has(key)) return false;
+    recorded.add(key);
+    return true;
+  },
+  resolveReconciliationMismatches: (...args: unknown[]) => resolveReconciliationMismatches(...args),
+}));
+jest.mock('../logger', () => ({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { config } from '../config';
+import { reconcileAccount } from './reconciliation';
+
+function closing(day: string, amount: number): BalancePoint {
+  return { day, balanceType: 'closingBooked', amount, currency: 'EUR' };
+}
+
+function entry(txId: string, day: string, signedAmount: number, balanceAfter: number): BalanceAfterEntry {
+  return { txId, day, signedAmount, balanceAfter, currency: 'EUR' };
+}
+
+describe('reconcileAccount', () => {
+  beforeEach(() => {
+    config.reconciliation.lookbackDays = 30;
+    config.reconciliation.tolerance = 0.01;
+    cursor = { sinceISO: '2024-03-10T08:00:00Z', updatedAt: '2024-03-10T08:00:00Z' };
+    snapshots = [closing('2024-03-01', 100), closing('2024-03-05', 150)];
+    entries = [];
+    flows = { '2024-03-01:2024-03-05': 50 };
+    recorded.clear();
+    listDatedBalances.mockReset().mockImplementation(async () => snapshots);
+    resolveReconciliationMismatches.mockReset().mockResolvedValue(0);
+    emit.mockReset();
+    jest.useFakeTimers().setSystemTime(new Date('2024-03-15T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('compares dated closing balances up to the last synced day', async () => {
+    expect(await reconcileAccount('acc-1')).toEqual([]);
+
+    expect(listDatedBalances).toHaveBeenCalledWith('acc-1', 'closingBooked', '2024-02-10', '2024-03-10');
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('records and emits a balance movement the booked flow does not explain, once', async () => {
+    flows['2024-03-01:2024-03-05'] = 40;
+
+    const mismatches = await reconcileAccount('acc-1');
+    expect(mismatches).toEqual([{
+      key: 'acc-1:balance_delta:closingBooked:2024-03-01:2024-03-05',
+      accountId: 'acc-1',
+      kind: 'balance_delta',
+      fromDay: '2024-03-01',
+      toDay: '2024-03-05',
+      currency: 'EUR',
+      expected: 50,
+      actual: 40,
+      difference: 10,
+    }]);
+    expect(emit).toHaveBeenCalledWith('bank.reconciliation.mismatch', expect.objectContaining({
+      kind: 'balance_delta',
+      difference: 10,
+      detectedAt: '2024-03-15T12:00:00.000Z',
+    }));
+
+    expect(await reconcileAccount('acc-1')).toHaveLength(1);
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats differences within the tolerance as a match', async () => {
+    flows['2024-03-01:2024-03-05'] = 49.995;
+
+    expect(await reconcileAccount('acc-1')).toEqual([]);
+  });
+
+  it('flags a transaction whose balance before it was never seen', async () => {
+    entries = [
+      entry('tx-1', '2024-03-02', 10, 160),
+      entry('tx-2', '2024-03-03', -5, 155),
+      entry('tx-3', '2024-03-04', -20, 120),
+    ];
+    flows['2024-03-01:2024-03-05'] = -15;
+    snapshots = [closing('2024-03-01', 165), closing('2024-03-05', 150)];
+
+    const mismatches = await reconcileAccount('acc-1');
+    expect(mismatches).toEqual([expect.objectContaining({
+      key: 'acc-1:balance_after:tx-3',
+      kind: 'balance_after',
+      txId: 'tx-3',
+      fromDay: '2024-03-03',
+      toDay: '2024-03-04',
+      expected: 140,
+      actual: 155,
+      difference: -15,
+    })]);
+  });
+
+  it('resolves discrepancies no longer detected', async () => {
+    resolveReconciliationMismatches.mockResolvedValue(1);
+
+    await reconcileAccount('acc-1');
+
+    expect(resolveReconciliationMismatches).toHaveBeenCalledWith('acc-1', '2024-02-10', '2024-03-10', []);
+  });
+
+  it('keeps still detected discrepancies open', async () => {
+    flows['2024-03-01:2024-03-05'] = 0;
+
+    await reconcileAccount('acc-1');
+
+    expect(resolveReconciliationMismatches).toHaveBeenCalledWith(
+      'acc-1',
+      '2024-02-10',
+      '2024-03-10',
+      ['acc-1:balance_delta:closingBooked:2024-03-01:2024-03-05']
+    );
+  });
+
+  it('stops before the resume point of a truncated sync and skips unsynced accounts', async () => {
+    cursor = { sinceISO: '2024-03-10T08:00:00Z', resumeFrom: '2024-03-04', updatedAt: '2024-03-10T08:00:00Z' };
+    await reconcileAccount('acc-1');
+    expect(listDatedBalances).toHaveBeenCalledWith('acc-1', 'closingBooked', '2024-02-03', '2024-03-03');
+
+    cursor = null;
+    expect(await reconcileAccount('acc-2')).toEqual([]);
+    expect(listDatedBalances).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,169 @@
+import { emit } from './events';
+import { getCursor } from './cursor';
+import { isDatabaseEnabled } from './db';
+import { listLinkedAccountIds } from './provider';
+import { resolveAccountId } from './accountIdentity';
+import {
+  ReconciliationMismatch,
+  listBalanceAfterEntries,
+  listDatedBalances,
+  recordReconciliationMismatch,
+  resolveReconciliationMismatches,
+  sumBookedFlow,
+} from './repository';
+import { logger } from '../logger';
+import { config } from '../config';
+
+// Only a day's closing balance lines up with the transactions booked that
+// day. Interim balances move during the day, and a balance without a bank
+// reference date is filed under the day it was fetched.
+const RECONCILE_BALANCE_TYPE = 'closingBooked';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function shiftDay(day: string, days: number): string {
+  return new Date(new Date(day).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Last day whose transactions have been fully synced, never later than
+ * yesterday (null if the account was never synced)
+ */
+async function getSyncedThrough(accountId: string): Promise<string | null> {
+  const cursor = await getCursor(accountId);
+  if (!cursor) return null;
+
+  const today = new Date().toISOString().split('T')[0];
+  // A truncated sync has only read the days before its resume point
+  const synced = cursor.resumeFrom
+    ? shiftDay(cursor.resumeFrom, -1)
+    : cursor.sinceISO.split('T')[0];
+
+  return [synced, shiftDay(today, -1)].sort()[0];
+}
+
+/**
+ * Check an account's booked transactions against its balances over the
+ * lookback window:
+ * - the movement between consecutive dated closing balances must equal the
+ *   net flow of transactions booked in between (`balance_delta`)
+ * - each transaction's balanceAfterTransaction minus its amount must be a
+ *   balance seen before it: another transaction's or a snapshot
+ *   (`balance_after`, order-independent within a day)
+ *
+ * New discrepancies are recorded and emitted as bank.reconciliation.mismatch;
+ * ones no longer detected (e.g. the missed transaction synced later) are
+ * marked resolved. Returns the discrepancies found.
+ */
+export async function reconcileAccount(accountId: string): Promise<ReconciliationMismatch[]> {
+  const throughDay = await getSyncedThrough(accountId);
+  if (!throughDay) return [];
+
+  const fromDay = shiftDay(throughDay, -(config.reconciliation.lookbackDays - 1));
+  const tolerance = toCents(config.reconciliation.tolerance);
+  const mismatches: ReconciliationMismatch[] = [];
+
+  const snapshots = await listDatedBalances(accountId, RECONCILE_BALANCE_TYPE, fromDay, throughDay);
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const previous = snapshots[i - 1];
+    const current = snapshots[i];
+    if (previous.currency !== current.currency) continue;
+
+    const movement = current.amount - previous.amount;
+    const flow = await sumBookedFlow(accountId, previous.day, current.day, current.currency);
+    if (Math.abs(toCents(movement) - toCents(flow)) <= tolerance) continue;
+
+    mismatches.push({
+      key: `${accountId}:balance_delta:${RECONCILE_BALANCE_TYPE}:${previous.day}:${current.day}`,
+      accountId,
+      kind: 'balance_delta',
+      fromDay: previous.day,
+      toDay: current.day,
+      currency: current.currency,
+      expected: movement,
+      actual: flow,
+      difference: (toCents(movement) - toCents(flow)) / 100,
+    });
+  }
+
+  const entries = await listBalanceAfterEntries(accountId, fromDay, throughDay);
+  const knownBalances = new Set([
+    ...entries.map(entry => `${entry.currency}:${toCents(entry.balanceAfter)}`),
+    ...snapshots.map(point => `${point.currency}:${toCents(point.amount)}`),
+  ]);
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    // The balance before the first day's transactions is outside the window
+    if (entry.day === entries[0].day) continue;
+
+    const before = toCents(entry.balanceAfter) - toCents(entry.signedAmount);
+    if (knownBalances.has(`${entry.currency}:${before}`)) continue;
+
+    const previous = entries.slice(0, i).reverse().find(e => e.currency === entry.currency);
+    if (!previous) continue;
+
+    mismatches.push({
+      key: `${accountId}:balance_after:${entry.txId}`,
+      accountId,
+      kind: 'balance_after',
+      fromDay: previous.day,
+      toDay: entry.day,
+      txId: entry.txId,
+      currency: entry.currency,
+      expected: before / 100,
+      actual: previous.balanceAfter,
+      difference: (before - toCents(previous.balanceAfter)) / 100,
+    });
+  }
+
+  for (const mismatch of mismatches) {
+    if (!(await recordReconciliationMismatch(mismatch))) continue;
+
+    const { key, ...data } = mismatch;
+    logger.warn(data, 'Reconciliation mismatch');
+    await emit('bank.reconciliation.mismatch', {
+      ...data,
+      detectedAt: new Date().toISOString(),
+    });
+  }
+
+  const resolved = await resolveReconciliationMismatches(
+    accountId,
+    fromDay,
+    throughDay,
+    mismatches.map(mismatch => mismatch.key)
+  );
+  if (resolved > 0) {
+    logger.info({ accountId, resolved }, 'Reconciliation mismatches resolved');
+  }
+
+  return mismatches;
+}
+
+/**
+ * Reconcile every linked account (needs the durable store)
+ */
+export async function reconcileBalances(): Promise<{ accounts: number; mismatches: number }> {
+  if (!isDatabaseEnabled()) return { accounts: 0, mismatches: 0 };
+
+  // History is kept under internal IDs
+  const accountIds = [...new Set(await Promise.all((await listLinkedAccountIds()).map(resolveAccountId)))];
+  let mismatches = 0;
+
+  for (const accountId of accountIds) {
+    try {
+      mismatches += (await reconcileAccount(accountId)).length;
+    } catch (err) {
+      logger.error({ err, accountId }, 'Failed to reconcile account');
+    }
+  }
+
+  logger.info({ accounts: accountIds.length, mismatches }, 'Balance reconciliation completed');
+
+  return { accounts: accountIds.length, mismatches };
+}
@@ -0,0 +1,200 @@
+const query = jest.fn();
+const client = { query: jest.fn(), release: jest.fn() };
+let databaseEnabled = true;
+
+jest.mock('./db', () => ({
+  isDatabaseEnabled: () => databaseEnabled,
+  getDb: () => ({ query, connect: async () => client }),
+}));
+jest.mock('../logger', () => ({ logger: { error: jest.fn() } }));
+
+import {
+  decodeTransactionCursor,
+  encodeTransactionCursor,
+  listDatedBalances,
+  queryTransactions,
+  reassignAccountHistory,
+  saveTransaction,
+  upsertAccount,
+} from './repository';
+import { BankTransaction } from '../types';
+
+function tx(overrides: Partial<BankTransaction> = {}): BankTransaction {
+  return {
+    txId: 'tx-1',
+    externalRef: 'ref-1',
+    accountId: 'acc-1',
+    source: 'bank',
+    provider: 'gocardless',
+    asset: 'EUR',
+    amount: 20,
+    fee: 0,
+    direction: 'out',
+    status: 'booked',
+    bookedAt: '2024-03-01',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  databaseEnabled = true;
+  query.mockReset().mockResolvedValue({ rows: [], rowCount: 0 });
+  client.query.mockReset().mockResolvedValue({ rows: [], rowCount: 0 });
+  client.release.mockReset();
+});
+
+describe('saveTransaction', () => {
+  it('upserts on the txId and stores the full transaction as data', async () => {
+    const transaction = tx({ counterparty: { name: 'Shop' } });
+    await saveTransaction(transaction);
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('ON CONFLICT (tx_id) DO UPDATE');
+    expect(params[0]).toBe('tx-1');
+    expect(params).toContain('Shop');
+    expect(params).toContain(JSON.stringify(transaction));
+  });
+
+  it('rethrows failures so the sync does not advance past them', async () => {
+    query.mockRejectedValue(new Error('connection lost'));
+    await expect(saveTransaction(tx())).rejects.toThrow('connection lost');
+  });
+
+  it('does nothing without a database', async () => {
+    databaseEnabled = false;
+    await saveTransaction(tx());
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe('upsertAccount', () => {
+  it('keeps stored values for fields left undefined', async () => {
+    await upsertAccount({ accountId: 'acc-1', provider: 'gocardless', currency: 'EUR' });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('ON CONFLICT (account_id) DO UPDATE');
+    expect(sql).toContain('iban = COALESCE(EXCLUDED.iban, accounts.iban)');
+    expect(params.slice(0, 6)).toEqual(['acc-1', 'gocardless', null, null, null, 'EUR']);
+  });
+
+  it('logs failures instead of throwing', async () => {
+    query.mockRejectedValue(new Error('connection lost'));
+    await expect(upsertAccount({ accountId: 'acc-1', provider: 'gocardless' })).resolves.toBeUndefined();
+  });
+
+  it('does nothing without a database', async () => {
+    databaseEnabled = false;
+    await upsertAccount({ accountId: 'acc-1', provider: 'gocardless' });
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe('reassignAccountHistory', () => {
+  const statements = () => client.query.mock.calls.map(([sql]) => sql.replace(/\s+/g, ' ').trim());
+
+  it('moves every table in one transaction, dropping rows the target already has', async () => {
+    await reassignAccountHistory('acc-new', 'acc-old');
+
+    const sql = statements();
+    expect(sql[0]).toBe('BEGIN');
+    expect(sql[1]).toMatch(/^DELETE FROM transactions t .* c\.external_ref = t\.external_ref/);
+    expect(sql[sql.length - 1]).toBe('COMMIT');
+    for (const table of ['transactions', 'balances', 'transaction_aliases', 'balance_daily']) {
+      expect(sql).toContainEqual(expect.stringMatching(new RegExp(`^UPDATE ${table} SET account_id = \\$2`)));
+    }
+    expect(client.query.mock.calls.slice(1, -1).every(([, params]) => params[0] === 'acc-new')).toBe(true);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('rolls back and rethrows on failure', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('UPDATE balances')) throw new Error('deadlock');
+      return { rows: [], rowCount: 0 };
+    });
+
+    await expect(reassignAccountHistory('acc-new', 'acc-old')).rejects.toThrow('deadlock');
+    expect(statements()).toContain('ROLLBACK');
+    expect(statements()).not.toContain('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+  });
+});
+
+describe('listDatedBalances', () => {
+  it('reads the last fetch of each bank reference date, never the fetch day', async () => {
+    query.mockResolvedValue({
+      rows: [{ day: '2024-03-01', balance_type: 'closingBooked', amount: '100.5000', currency: 'EUR' }],
+    });
+
+    expect(await listDatedBalances('acc-1', 'closingBooked', '2024-02-01', '2024-03-01')).toEqual([
+      { day: '2024-03-01', balanceType: 'closingBooked', amount: 100.5, currency: 'EUR' },
+    ]);
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('FROM balances');
+    expect(sql).toContain('DISTINCT ON (reference_date)');
+    expect(sql).toContain('fetched_at DESC');
+    expect(params).toEqual(['acc-1', 'closingBooked', '2024-02-01', '2024-03-01']);
+  });
+});
+
+describe('transaction cursors', () => {
+  it('round-trips through the encoded form', () => {
+    const cursor = { sort: 'amount' as const, value: '12.50', txId: 'tx-1' };
+    expect(decodeTransactionCursor(encodeTransactionCursor(cursor))).toEqual(cursor);
+  });
+
+  it('rejects malformed or incomplete cursors', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    expect(decodeTransactionCursor('not-a-cursor')).toBeNull();
+    expect(decodeTransactionCursor(encode({ sort: 'description', value: 'a', txId: 'tx-1' }))).toBeNull();
+    expect(decodeTransactionCursor(encode({ sort: 'amount', value: 12.5, txId: 'tx-1' }))).toBeNull();
+    expect(decodeTransactionCursor(encode({ sort: 'amount', value: '12.50' }))).toBeNull();
+  });
+});
+
+describe('queryTransactions', () => {
+  function row(txId: string, sortValue: string) {
+    return { data: tx({ txId }), sort_value: sortValue, tx_id: txId };
+  }
+
+  it('continues after the cursor in the sort direction, tie-broken by txId', async () => {
+    await queryTransactions({ sort: 'amount', order: 'asc', cursor: { sort: 'amount', value: '12.50', txId: 'tx-1' } });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('WHERE (amount, tx_id) > ($1::numeric, $2)');
+    expect(sql).toContain('ORDER BY amount ASC, tx_id ASC');
+    expect(params).toEqual(['12.50', 'tx-1']);
+  });
+
+  it('pages backwards through booking dates by default', async () => {
+    await queryTransactions({
+      accountIds: ['acc-1'],
+      cursor: { sort: 'bookedAt', value: '2024-03-01 00:00:00+00', txId: 'tx-1' },
+    });
+
+    const [sql] = query.mock.calls[0];
+    expect(sql).toContain('(booked_at, tx_id) < ($2::timestamptz, $3)');
+    expect(sql).toContain('ORDER BY booked_at DESC, tx_id DESC');
+  });
+
+  it('returns a cursor only when another page exists', async () => {
+    query.mockResolvedValue({ rows: [row('tx-1', '30'), row('tx-2', '20'), row('tx-3', '10')] });
+
+    const result = await queryTransactions({ sort: 'amount', limit: 2 });
+    expect(query.mock.calls[0][0]).toContain('LIMIT 3');
+    expect(result.transactions.map(t => t.txId)).toEqual(['tx-1', 'tx-2']);
+    expect(result.nextCursor).toEqual({ sort: 'amount', value: '20', txId: 'tx-2' });
+
+    query.mockResolvedValue({ rows: [row('tx-1', '30')] });
+    expect((await queryTransactions({ sort: 'amount', limit: 2 })).nextCursor).toBeUndefined();
+  });
+
+  it('matches wildcard characters in text filters literally', async () => {
+    await queryTransactions({ counterparty: '50%_off', search: 'C:\\path' });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain("counterparty_name ILIKE $1 ESCAPE '\\'");
+    expect(sql).toContain("description ILIKE $2 ESCAPE '\\'");
+    expect(params).toEqual(['%50\\%\\_off%', '%C:\\\\path%']);
+  });
+});
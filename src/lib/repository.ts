@@ -0,0 +1,687 @@
+import { getDb, isDatabaseEnabled } from './db';
+import { logger } from '../logger';
+import { BankTransaction } from '../types';
+import { ProviderBalance } from './provider';
+
+export interface AccountRecord {
+  accountId: string;
+  provider: string;
+  iban?: string;
+  institutionId?: string;
+  ownerName?: string;
+  currency?: string;
+  status?: string;
+  userId?: string;
+  name?: string;
+  product?: string;
+  cashAccountType?: string;
+  bban?: string;
+  detailsFetchedAt?: string;
+}
+
+/**
+ * Insert or update a transaction. Safe to call repeatedly for the same txId.
+ */
+export async function saveTransaction(tx: BankTransaction): Promise<void> {
+  if (!isDatabaseEnabled()) return;
+
+  try {
+    await getDb().query(
+      `INSERT INTO transactions (
+         tx_id, external_ref, account_id, provider, asset, amount, fee, direction,
+         booked_at, value_date, description, reference,
+         counterparty_name, counterparty_iban, counterparty_bic, data, status
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+       ON CONFLICT (tx_id) DO UPDATE SET
+         external_ref = EXCLUDED.external_ref,
+         status = EXCLUDED.status,
+         asset = EXCLUDED.asset,
+         amount = EXCLUDED.amount,
+         fee = EXCLUDED.fee,
+         direction = EXCLUDED.direction,
+         booked_at = EXCLUDED.booked_at,
+         value_date = EXCLUDED.value_date,
+         description = EXCLUDED.description,
+         reference = EXCLUDED.reference,
+         counterparty_name = EXCLUDED.counterparty_name,
+         counterparty_iban = EXCLUDED.counterparty_iban,
+         counterparty_bic = EXCLUDED.counterparty_bic,
+         data = EXCLUDED.data,
+         updated_at = now()`,
+      [
+        tx.txId,
+        tx.externalRef || '',
+        tx.accountId,
+        tx.provider,
+        tx.asset,
+        tx.amount,
+        tx.fee,
+        tx.direction,
+        tx.bookedAt,
+        tx.valueDate || null,
+        tx.description || null,
+        tx.reference || null,
+        tx.counterparty?.name || null,
+        tx.counterparty?.iban || null,
+        tx.counterparty?.bic || null,
+        JSON.stringify(tx),
+        tx.status,
+      ]
+    );
+  } catch (err) {
+    logger.error({ err, txId: tx.txId, accountId: tx.accountId }, 'Failed to save transaction');
+    throw err;
+  }
+}
+
+/**
+ * Status of a stored transaction (null if it is not stored)
+ */
+export async function getStoredTransactionStatus(txId: string): Promise<BankTransaction['status'] | null> {
+  if (!isDatabaseEnabled()) return null;
+
+  const { rows } = await getDb().query<{ status: BankTransaction['status'] }>(
+    'SELECT status FROM transactions WHERE tx_id = $1',
+    [txId]
+  );
+  return rows[0]?.status ?? null;
+}
+
+/**
+ * Record that a booked transaction's own txId (`aliasTxId`) is stored under
+ * another one: the pending entry it settled
+ */
+export async function saveTransactionAlias(aliasTxId: string, txId: string, accountId: string): Promise<void> {
+  if (!isDatabaseEnabled()) return;
+
+  await getDb().query(
+    `INSERT INTO transaction_aliases (alias_tx_id, tx_id, account_id)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (alias_tx_id) DO NOTHING`,
+    [aliasTxId, txId, accountId]
+  );
+}
+
+export async function getTransactionAlias(aliasTxId: string): Promise<string | null> {
+  if (!isDatabaseEnabled()) return null;
+
+  const { rows } = await getDb().query<{ tx_id: string }>(
+    'SELECT tx_id FROM transaction_aliases WHERE alias_tx_id = $1',
+    [aliasTxId]
+  );
+  return rows[0]?.tx_id ?? null;
+}
+
+export async function deleteTransaction(txId: string): Promise<void> {
+  if (!isDatabaseEnabled()) return;
+
+  try {
+    await getDb().query('DELETE FROM transactions WHERE tx_id = $1', [txId]);
+  } catch (err) {
+    logger.error({ err, txId }, 'Failed to delete transaction');
+    throw err;
+  }
+}
+
+/**
+ * Insert or update an account. Fields left undefined keep their stored value.
+ * Failures are logged, not thrown: account rows are informational.
+ */
+export async function upsertAccount(account: AccountRecord): Promise<void> {
+  if (!isDatabaseEnabled()) return;
+
+  try {
+    await getDb().query(
+      `INSERT INTO accounts (
+         account_id, provider, iban, institution_id, owner_name, currency, status, user_id,
+         name, product, cash_account_type, bban, details_fetched_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (account_id) DO UPDATE SET
+         provider = EXCLUDED.provider,
+         iban = COALESCE(EXCLUDED.iban, accounts.iban),
+         institution_id = COALESCE(EXCLUDED.institution_id, accounts.institution_id),
+         owner_name = COALESCE(EXCLUDED.owner_name, accounts.owner_name),
+         currency = COALESCE(EXCLUDED.currency, accounts.currency),
+         status = COALESCE(EXCLUDED.status, accounts.status),
+         user_id = COALESCE(EXCLUDED.user_id, accounts.user_id),
+         name = COALESCE(EXCLUDED.name, accounts.name),
+         product = COALESCE(EXCLUDED.product, accounts.product),
+         cash_account_type = COALESCE(EXCLUDED.cash_account_type, accounts.cash_account_type),
+         bban = COALESCE(EXCLUDED.bban, accounts.bban),
+         details_fetched_at = COALESCE(EXCLUDED.details_fetched_at, accounts.details_fetched_at),
+         updated_at = now()`,
+      [
+        account.accountId,
+        account.provider,
+        account.iban || null,
+        account.institutionId || null,
+        account.ownerName || null,
+        account.currency || null,
+        account.status || null,
+        account.userId || null,
+        account.name || null,
+        account.product || null,
+        account.cashAccountType || null,
+        account.bban || null,
+        account.detailsFetchedAt || null,
+      ]
+    );
+  } catch (err) {
+    logger.error({ err, accountId: account.accountId }, 'Failed to upsert account');
+  }
+}
+
+export async function getAccountRecord(accountId: string): Promise<AccountRecord | null> {
+  const { rows } = await getDb().query(
+    `SELECT account_id, provider, iban, institution_id, owner_name, currency, status, user_id,
+            name, product, cash_account_type, bban, details_fetched_at
+     FROM accounts
+     WHERE account_id = $1`,
+    [accountId]
+  );
+  if (rows.length === 0) return null;
+
+  const row = rows[0];
+  return {
+    accountId: row.account_id,
+    provider: row.provider,
+    iban: row.iban ?? undefined,
+    institutionId: row.institution_id ?? undefined,
+    ownerName: row.owner_name ?? undefined,
+    currency: row.currency ?? undefined,
+    status: row.status ?? undefined,
+    userId: row.user_id ?? undefined,
+    name: row.name ?? undefined,
+    product: row.product ?? undefined,
+    cashAccountType: row.cash_account_type ?? undefined,
+    bban: row.bban ?? undefined,
+    detailsFetchedAt: row.details_fetched_at ? new Date(row.details_fetched_at).toISOString() : undefined,
+  };
+}
+
+export interface BalancePoint {
+  day: string;
+  balanceType: string;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Record every balance type of one fetch, and make it the day's value in the
+ * daily series (the reference date, or today). Failures are logged, not thrown.
+ */
+export async function saveBalances(
+  accountId: string,
+  balances: ProviderBalance[]
+): Promise<void> {
+  if (!isDatabaseEnabled() || balances.length === 0) return;
+
+  const today = new Date().toISOString().split('T')[0];
+
+  try {
+    for (const balance of balances) {
+      const values = [
+        accountId,
+        balance.balanceType,
+        balance.balanceAmount.amount,
+        balance.balanceAmount.currency,
+      ];
+
+      await getDb().query(
+        `INSERT INTO balances (account_id, balance_type, amount, currency, reference_date)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [...values, balance.referenceDate || null]
+      );
+      await getDb().query(
+        `INSERT INTO balance_daily (account_id, balance_type, amount, currency, day)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (account_id, balance_type, day) DO UPDATE SET
+           amount = EXCLUDED.amount,
+           currency = EXCLUDED.currency,
+           fetched_at = now()`,
+        [...values, balance.referenceDate || today]
+      );
+    }
+  } catch (err) {
+    logger.error({ err, accountId }, 'Failed to save balances');
+  }
+}
+
+/**
+ * Daily balances of an account, oldest first. Dates are inclusive.
+ */
+export async function queryBalanceHistory(query: {
+  accountId: string;
+  fromDate?: string;
+  toDate?: string;
+  balanceType?: string;
+}): Promise<BalancePoint[]> {
+  const conditions = ['account_id = $1'];
+  const params: any[] = [query.accountId];
+
+  if (query.fromDate) {
+    params.push(query.fromDate);
+    conditions.push(`day >= $${params.length}`);
+  }
+  if (query.toDate) {
+    params.push(query.toDate);
+    conditions.push(`day <= $${params.length}`);
+  }
+  if (query.balanceType) {
+    params.push(query.balanceType);
+    conditions.push(`balance_type = $${params.length}`);
+  }
+
+  const { rows } = await getDb().query<{ day: string; balance_type: string; amount: string; currency: string }>(
+    `SELECT to_char(day, 'YYYY-MM-DD') AS day, balance_type, amount::text AS amount, currency
+     FROM balance_daily
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY day ASC, balance_type ASC`,
+    params
+  );
+
+  return rows.map(row => ({
+    day: row.day,
+    balanceType: row.balance_type,
+    amount: parseFloat(row.amount),
+    currency: row.currency,
+  }));
+}
+
+/**
+ * Latest daily balance of each type an account reports
+ */
+export async function getLatestBalances(accountId: string): Promise<BalancePoint[]> {
+  const { rows } = await getDb().query<{ day: string; balance_type: string; amount: string; currency: string }>(
+    `SELECT DISTINCT ON (balance_type)
+            to_char(day, 'YYYY-MM-DD') AS day, balance_type, amount::text AS amount, currency
+     FROM balance_daily
+     WHERE account_id = $1
+     ORDER BY balance_type ASC, day DESC`,
+    [accountId]
+  );
+
+  return rows.map(row => ({
+    day: row.day,
+    balanceType: row.balance_type,
+    amount: parseFloat(row.amount),
+    currency: row.currency,
+  }));
+}
+
+/**
+ * Balances of one type the bank dated itself, the last fetch of each
+ * reference date, oldest first. Dates are inclusive.
+ */
+export async function listDatedBalances(
+  accountId: string,
+  balanceType: string,
+  fromDay: string,
+  throughDay: string
+): Promise<BalancePoint[]> {
+  const { rows } = await getDb().query<{ day: string; balance_type: string; amount: string; currency: string }>(
+    `SELECT DISTINCT ON (reference_date)
+            to_char(reference_date, 'YYYY-MM-DD') AS day, balance_type, amount::text AS amount, currency
+     FROM balances
+     WHERE account_id = $1
+       AND balance_type = $2
+       AND reference_date >= $3::date
+       AND reference_date <= $4::date
+     ORDER BY reference_date ASC, fetched_at DESC, id DESC`,
+    [accountId, balanceType, fromDay, throughDay]
+  );
+
+  return rows.map(row => ({
+    day: row.day,
+    balanceType: row.balance_type,
+    amount: parseFloat(row.amount),
+    currency: row.currency,
+  }));
+}
+
+/**
+ * Net booked flow (in minus out) of an account in one currency, for
+ * bookings after `afterDay` up to and including `throughDay`
+ */
+export async function sumBookedFlow(
+  accountId: string,
+  afterDay: string,
+  throughDay: string,
+  currency: string
+): Promise<number> {
+  const { rows } = await getDb().query<{ flow: string | null }>(
+    `SELECT SUM(CASE WHEN direction = 'in' THEN amount ELSE -amount END)::text AS flow
+     FROM transactions
+     WHERE account_id = $1
+       AND status = 'booked'
+       AND asset = $4
+       AND booked_at >= ($2::date + 1)
+       AND booked_at < ($3::date + 1)`,
+    [accountId, afterDay, throughDay, currency]
+  );
+
+  return parseFloat(rows[0]?.flow || '0');
+}
+
+export interface BalanceAfterEntry {
+  txId: string;
+  day: string;
+  signedAmount: number;
+  balanceAfter: number;
+  currency: string;
+}
+
+/**
+ * Booked transactions that carry the bank's balanceAfterTransaction, between
+ * two days inclusive
+ */
+export async function listBalanceAfterEntries(
+  accountId: string,
+  fromDay: string,
+  throughDay: string
+): Promise<BalanceAfterEntry[]> {
+  const { rows } = await getDb().query<{
+    tx_id: string;
+    day: string;
+    signed_amount: string;
+    balance_after: string;
+    currency: string;
+  }>(
+    `SELECT tx_id,
+            to_char(booked_at, 'YYYY-MM-DD') AS day,
+            (CASE WHEN direction = 'in' THEN amount ELSE -amount END)::text AS signed_amount,
+            bat->>'amount' AS balance_after,
+            bat->>'currency' AS currency
+     FROM transactions
+     -- Rows stored before it had its own field carry it under metadata
+     CROSS JOIN LATERAL (
+       SELECT COALESCE(data->'balanceAfterTransaction', data->'metadata'->'balanceAfterTransaction') AS bat
+     ) b
+     WHERE account_id = $1
+       AND status = 'booked'
+       AND bat IS NOT NULL
+       AND booked_at >= $2::date
+       AND booked_at < ($3::date + 1)
+     ORDER BY booked_at ASC, tx_id ASC`,
+    [accountId, fromDay, throughDay]
+  );
+
+  return rows.map(row => ({
+    txId: row.tx_id,
+    day: row.day,
+    signedAmount: parseFloat(row.signed_amount),
+    balanceAfter: parseFloat(row.balance_after),
+    currency: row.currency,
+  }));
+}
+
+export interface ReconciliationMismatch {
+  key: string; // Identifies the same discrepancy across runs
+  accountId: string;
+  kind: 'balance_delta' | 'balance_after';
+  fromDay: string;
+  toDay: string;
+  txId?: string;
+  currency: string;
+  expected: number;
+  actual: number;
+  difference: number;
+}
+
+/**
+ * Record a discrepancy, refreshing the amounts of one already known.
+ * Returns true the first time it is recorded (or when it reappears after
+ * being resolved).
+ */
+export async function recordReconciliationMismatch(mismatch: ReconciliationMismatch): Promise<boolean> {
+  const { rows } = await getDb().query<{ is_new: boolean }>(
+    `INSERT INTO reconciliation_mismatches (
+       mismatch_key, account_id, kind, from_day, to_day, tx_id, currency, expected, actual, difference
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     ON CONFLICT (mismatch_key) DO UPDATE SET
+       expected = EXCLUDED.expected,
+       actual = EXCLUDED.actual,
+       difference = EXCLUDED.difference,
+       detected_at = CASE
+         WHEN reconciliation_mismatches.resolved_at IS NULL THEN reconciliation_mismatches.detected_at
+         ELSE now()
+       END,
+       resolved_at = NULL
+     RETURNING detected_at = now() AS is_new`,
+    [
+      mismatch.key,
+      mismatch.accountId,
+      mismatch.kind,
+      mismatch.fromDay,
+      mismatch.toDay,
+      mismatch.txId || null,
+      mismatch.currency,
+      mismatch.expected,
+      mismatch.actual,
+      mismatch.difference,
+    ]
+  );
+
+  return rows[0]?.is_new ?? false;
+}
+
+/**
+ * Mark an account's open discrepancies in a date range resolved, except the
+ * ones still detected. Returns how many were resolved.
+ */
+export async function resolveReconciliationMismatches(
+  accountId: string,
+  fromDay: string,
+  throughDay: string,
+  openKeys: string[]
+): Promise<number> {
+  const { rowCount } = await getDb().query(
+    `UPDATE reconciliation_mismatches
+     SET resolved_at = now()
+     WHERE account_id = $1
+       AND resolved_at IS NULL
+       AND from_day >= $2
+       AND to_day <= $3
+       AND NOT (mismatch_key = ANY($4))`,
+    [accountId, fromDay, throughDay, openKeys]
+  );
+
+  return rowCount || 0;
+}
+
+/**
+ * Move an account's stored history to another account ID (a re-linked
+ * account's provider ID to its internal ID). Transactions the target
+ * already has under the same bank reference are dropped, not duplicated.
+ */
+export async function reassignAccountHistory(fromId: string, toId: string): Promise<void> {
+  if (!isDatabaseEnabled()) return;
+
+  const client = await getDb().connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `DELETE FROM transactions t
+       WHERE t.account_id = $1
+         AND t.external_ref <> ''
+         AND EXISTS (
+           SELECT 1 FROM transactions c
+           WHERE c.account_id = $2 AND c.external_ref = t.external_ref
+         )`,
+      [fromId, toId]
+    );
+    await client.query(
+      `UPDATE transactions
+       SET account_id = $2,
+           data = jsonb_set(data, '{accountId}', to_jsonb($2::text)),
+           updated_at = now()
+       WHERE account_id = $1`,
+      [fromId, toId]
+    );
+    await client.query('UPDATE balances SET account_id = $2 WHERE account_id = $1', [fromId, toId]);
+    await client.query('UPDATE transaction_aliases SET account_id = $2 WHERE account_id = $1', [fromId, toId]);
+    // Days the target already has keep its value
+    await client.query(
+      `DELETE FROM balance_daily b
+       WHERE b.account_id = $1
+         AND EXISTS (
+           SELECT 1 FROM balance_daily c
+           WHERE c.account_id = $2 AND c.balance_type = b.balance_type AND c.day = b.day
+         )`,
+      [fromId, toId]
+    );
+    await client.query('UPDATE balance_daily SET account_id = $2 WHERE account_id = $1', [fromId, toId]);
+    // Recomputed under the target on the next reconciliation
+    await client.query('DELETE FROM reconciliation_mismatches WHERE account_id = $1', [fromId]);
+    await client.query('DELETE FROM accounts WHERE account_id = $1', [fromId]);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    logger.error({ err, fromId, toId }, 'Failed to reassign account history');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export interface TransactionQuery {
+  accountIds?: string[];
+  fromDate?: string;
+  toDate?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  direction?: 'in' | 'out';
+  status?: 'pending' | 'booked';
+  counterparty?: string;
+  counterpartyIban?: string;
+  search?: string;
+  sort?: 'bookedAt' | 'amount';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: TransactionCursor;
+}
+
+export interface TransactionCursor {
+  sort: 'bookedAt' | 'amount';
+  value: string;
+  txId: string;
+}
+
+export interface TransactionQueryResult {
+  transactions: BankTransaction[];
+  nextCursor?: TransactionCursor;
+}
+
+// ILIKE wildcards in user input match literally
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+const SORT_COLUMNS = {
+  bookedAt: 'booked_at',
+  amount: 'amount',
+} as const;
+
+export function encodeTransactionCursor(cursor: TransactionCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeTransactionCursor(encoded: string): TransactionCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (
+      !(cursor?.sort in SORT_COLUMNS) ||
+      typeof cursor?.value !== 'string' ||
+      typeof cursor?.txId !== 'string'
+    ) {
+      return null;
+    }
+    return cursor as TransactionCursor;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Query stored transactions with keyset pagination. The sort column is
+ * always paired with tx_id so pages stay stable while new rows arrive.
+ */
+export async function queryTransactions(
+  query: TransactionQuery
+): Promise<TransactionQueryResult> {
+  const sort = query.sort || 'bookedAt';
+  const sortColumn = SORT_COLUMNS[sort];
+  const order = query.order === 'asc' ? 'ASC' : 'DESC';
+  const limit = Math.min(Math.max(query.limit || 50, 1), 500);
+
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const param = (value: any) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (query.accountIds && query.accountIds.length > 0) {
+    conditions.push(`account_id = ANY(${param(query.accountIds)})`);
+  }
+  if (query.fromDate) {
+    conditions.push(`booked_at >= ${param(query.fromDate)}`);
+  }
+  if (query.toDate) {
+    // Inclusive end date
+    conditions.push(`booked_at < (${param(query.toDate)}::date + 1)`);
+  }
+  if (query.minAmount !== undefined) {
+    conditions.push(`amount >= ${param(query.minAmount)}`);
+  }
+  if (query.maxAmount !== undefined) {
+    conditions.push(`amount <= ${param(query.maxAmount)}`);
+  }
+  if (query.direction) {
+    conditions.push(`direction = ${param(query.direction)}`);
+  }
+  if (query.status) {
+    conditions.push(`status = ${param(query.status)}`);
+  }
+  if (query.counterparty) {
+    conditions.push(`counterparty_name ILIKE ${param(likePattern(query.counterparty))} ESCAPE '\\'`);
+  }
+  if (query.counterpartyIban) {
+    conditions.push(
+      `replace(upper(counterparty_iban), ' ', '') = ${param(query.counterpartyIban.replace(/\s/g, '').toUpperCase())}`
+    );
+  }
+  if (query.search) {
+    const pattern = param(likePattern(query.search));
+    conditions.push(`(description ILIKE ${pattern} ESCAPE '\\' OR reference ILIKE ${pattern} ESCAPE '\\')`);
+  }
+  if (query.cursor) {
+    const comparator = order === 'ASC' ? '>' : '<';
+    const castType = sortColumn === 'amount' ? 'numeric' : 'timestamptz';
+    conditions.push(
+      `(${sortColumn}, tx_id) ${comparator} (${param(query.cursor.value)}::${castType}, ${param(query.cursor.txId)})`
+    );
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const { rows } = await getDb().query<{ data: BankTransaction; sort_value: string; tx_id: string }>(
+    `SELECT data, ${sortColumn}::text AS sort_value, tx_id
+     FROM transactions
+     ${where}
+     ORDER BY ${sortColumn} ${order}, tx_id ${order}
+     LIMIT ${limit + 1}`,
+    params
+  );
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    transactions: page.map(row => row.data),
+    nextCursor: rows.length > limit && last
+      ? { sort, value: last.sort_value, txId: last.tx_id }
+      : undefined,
+  };
+}
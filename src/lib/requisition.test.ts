@@ -0,0 +1,361 @@
+const strings = new Map<string, string>();
+const sortedSets = new Map<string, Map<string, number>>();
+const hashes = new Map<string, Map<string, string>>();
+
+function sortedSet(key: string): Map<string, number> {
+  if (!sortedSets.has(key)) sortedSets.set(key, new Map());
+  return sortedSets.get(key)!;
+}
+
+function hash(key: string): Map<string, string> {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+}
+
+// Just the commands the manager uses
+const fakeRedis = {
+  get: async (key: string) => strings.get(key) ?? null,
+  set: async (key: string, value: string, ...args: unknown[]) => {
+    if (args.includes('NX') && strings.has(key)) return null;
+    strings.set(key, value);
+    return 'OK';
+  },
+  del: async (key: string) => Number(strings.delete(key)),
+  zadd: async (key: string, score: number, member: string) => {
+    sortedSet(key).set(member, score);
+    return 1;
+  },
+  zrem: async (key: string, member: string) => Number(sortedSet(key).delete(member)),
+  zrangebyscore: async (key: string, min: number, max: number) =>
+    [...sortedSet(key)].filter(([, score]) => score >= min && score <= max).map(([member]) => member),
+  hset: async (key: string, field: string, value: string) => {
+    hash(key).set(field, value);
+    return 1;
+  },
+  hget: async (key: string, field: string) => hash(key).get(field) ?? null,
+  hdel: async (key: string, field: string) => Number(hash(key).delete(field)),
+  pipeline: () => {
+    const queued: [string, string][] = [];
+    const pipeline = {
+      set: (key: string, value: string) => {
+        queued.push([key, value]);
+        return pipeline;
+      },
+      exec: async () => queued.map(([key, value]) => strings.set(key, value)),
+    };
+    return pipeline;
+  },
+};
+
+// Logo CDN
+const cdnGet = jest.fn();
+
+// GoCardless API
+const api = {
+  get: jest.fn(),
+  post: jest.fn(),
+  delete: jest.fn(),
+  interceptors: { request: { use: jest.fn() } },
+};
+
+jest.mock('./redis', () => ({ getRedis: () => fakeRedis }));
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { create: () => api, get: (...args: unknown[]) => cdnGet(...args) },
+}));
+jest.mock('../logger', () => ({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { config } from '../config';
+import { Institution, Requisition, RequisitionManager } from './requisition';
+
+function institution(overrides: Partial<Institution> = {}): Institution {
+  return {
+    id: 'BANK_ID',
+    name: 'Bank',
+    bic: 'BANKESMM',
+    transaction_total_days: '730',
+    countries: ['ES'],
+    logo: 'https://example.com/logo.png',
+    ...overrides,
+  };
+}
+
+describe('resolveAgreementParams', () => {
+  let manager: RequisitionManager;
+  let getInstitution: jest.SpyInstance;
+
+  beforeEach(() => {
+    manager = new RequisitionManager();
+    getInstitution = jest.spyOn(manager, 'getInstitution').mockResolvedValue(institution());
+  });
+
+  it('defaults to the full history, 90 days of access and every scope', async () => {
+    expect(await manager.resolveAgreementParams('BANK_ID')).toEqual({
+      valid: true,
+      params: {
+        maxHistoricalDays: 730,
+        accessValidForDays: 90,
+        accessScope: ['balances', 'details', 'transactions'],
+      },
+    });
+  });
+
+  it('caps the default access at the institution limit', async () => {
+    getInstitution.mockResolvedValue(institution({ max_access_valid_for_days: '30' }));
+
+    const result = await manager.resolveAgreementParams('BANK_ID');
+    expect(result).toMatchObject({ valid: true, params: { accessValidForDays: 30 } });
+  });
+
+  it('keeps requested values within the limits and dedupes scopes', async () => {
+    const result = await manager.resolveAgreementParams('BANK_ID', {
+      maxHistoricalDays: 365,
+      accessValidForDays: 180,
+      accessScope: ['balances', 'balances'],
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      params: { maxHistoricalDays: 365, accessValidForDays: 180, accessScope: ['balances'] },
+    });
+  });
+
+  it('rejects history beyond what the institution offers', async () => {
+    const result = await manager.resolveAgreementParams('BANK_ID', { maxHistoricalDays: 731 });
+    expect(result).toEqual({ valid: false, message: 'maxHistoricalDays must be between 1 and 730 for BANK_ID' });
+  });
+
+  it('rejects access beyond the institution limit', async () => {
+    getInstitution.mockResolvedValue(institution({ max_access_valid_for_days: '90' }));
+
+    const result = await manager.resolveAgreementParams('BANK_ID', { accessValidForDays: 91 });
+    expect(result).toEqual({ valid: false, message: 'accessValidForDays must be between 1 and 90 for BANK_ID' });
+  });
+
+  it('rejects fractional days, empty and unknown scopes', async () => {
+    expect(await manager.resolveAgreementParams('BANK_ID', { maxHistoricalDays: 1.5 })).toMatchObject({ valid: false });
+    expect(await manager.resolveAgreementParams('BANK_ID', { accessScope: [] })).toMatchObject({ valid: false });
+    expect(await manager.resolveAgreementParams('BANK_ID', { accessScope: ['payments'] })).toMatchObject({ valid: false });
+  });
+
+  it('falls back to 90 days of history when the institution publishes none', async () => {
+    getInstitution.mockResolvedValue(institution({ transaction_total_days: '' }));
+
+    const result = await manager.resolveAgreementParams('BANK_ID');
+    expect(result).toMatchObject({ valid: true, params: { maxHistoricalDays: 90 } });
+  });
+
+  it('rejects an unknown institution', async () => {
+    getInstitution.mockResolvedValue(null);
+
+    expect(await manager.resolveAgreementParams('NOPE')).toEqual({ valid: false, message: 'Unknown institution NOPE' });
+  });
+});
+
+function requisition(overrides: Partial<Requisition> = {}): Requisition {
+  return {
+    id: 'req-1',
+    created: '2024-03-01T10:00:00Z',
+    redirect: 'https://api.example.com/v1/requisitions/callback',
+    status: 'CR',
+    institution_id: 'BANK_ID',
+    agreement: '',
+    reference: 'user-1:ref-1',
+    accounts: [],
+    user_language: 'EN',
+    link: 'https://example.com/link',
+    ...overrides,
+  };
+}
+
+describe('requisition lifecycle', () => {
+  const start = new Date('2024-03-01T10:00:00Z').getTime();
+  const hours = (count: number) => count * 60 * 60 * 1000;
+  const activeKey = 'gc:requisition:active:user-1:BANK_ID';
+  let manager: RequisitionManager;
+  let bank: Map<string, Requisition>;
+
+  // Requisitions as both the bank and the cache know them
+  function store(...entries: Requisition[]) {
+    for (const entry of entries) {
+      bank.set(entry.id, entry);
+      strings.set(`gc:requisition:${entry.id}`, JSON.stringify(entry));
+    }
+  }
+
+  beforeEach(() => {
+    strings.clear();
+    sortedSets.clear();
+    hashes.clear();
+    bank = new Map();
+    config.requisitions.pendingTtlHours = 24;
+    jest.useFakeTimers().setSystemTime(start);
+
+    api.get.mockReset().mockImplementation(async (url: string) => {
+      const found = bank.get(url.split('/')[4]);
+      if (!found) throw Object.assign(new Error('Not found'), { response: { status: 404 } });
+      return { data: found };
+    });
+    api.delete.mockReset().mockImplementation(async (url: string) => {
+      bank.delete(url.split('/')[4]);
+      return { data: {} };
+    });
+    api.post.mockReset().mockImplementation(async (url: string, body: Record<string, any>) => {
+      if (url.includes('agreements')) return { data: { id: 'agr-2', ...body } };
+      const created = requisition({ ...body, id: `req-${bank.size + 1}`, created: new Date().toISOString() });
+      bank.set(created.id, created);
+      return { data: created };
+    });
+
+    manager = new RequisitionManager();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('findActiveRequisition', () => {
+    it('returns the in-progress requisition while it is still usable', async () => {
+      store(requisition());
+      strings.set(activeKey, 'req-1');
+
+      expect((await manager.findActiveRequisition('BANK_ID', 'user-1'))?.id).toBe('req-1');
+      expect(await manager.findActiveRequisition('BANK_ID', 'user-2')).toBeNull();
+    });
+
+    it('expires a stale pending requisition and falls back to the linked one it replaced', async () => {
+      store(requisition({ id: 'req-1', status: 'LN' }), requisition({ id: 'req-2' }));
+      strings.set(activeKey, 'req-2');
+      strings.set('gc:requisition:replaced:req-2', 'req-1');
+
+      jest.setSystemTime(start + hours(25));
+      expect((await manager.findActiveRequisition('BANK_ID', 'user-1'))?.id).toBe('req-1');
+      expect(strings.get(activeKey)).toBe('req-1');
+      expect(bank.has('req-2')).toBe(false);
+    });
+
+    it('releases the key of a requisition that ended', async () => {
+      store(requisition({ status: 'RJ' }));
+      strings.set(activeKey, 'req-1');
+
+      expect(await manager.findActiveRequisition('BANK_ID', 'user-1')).toBeNull();
+      expect(strings.has(activeKey)).toBe(false);
+    });
+  });
+
+  describe('expirePendingRequisitions', () => {
+    it('deletes only requisitions left unfinished past the TTL', async () => {
+      store(
+        requisition({ id: 'req-1' }),
+        requisition({ id: 'req-2', status: 'LN', reference: 'user-2:ref' }),
+        requisition({ id: 'req-3', reference: 'user-3:ref', created: new Date(start + hours(20)).toISOString() })
+      );
+      sortedSet('gc:requisition:pending').set('req-1', start);
+      sortedSet('gc:requisition:pending').set('req-2', start);
+      sortedSet('gc:requisition:pending').set('req-3', start + hours(20));
+
+      jest.setSystemTime(start + hours(25));
+      expect(await manager.expirePendingRequisitions()).toBe(1);
+      expect([...bank.keys()]).toEqual(['req-2', 'req-3']);
+      expect([...sortedSet('gc:requisition:pending').keys()]).toEqual(['req-3']);
+    });
+
+    it('forgets a renewal nobody finished, so the renewed requisition keeps its accounts', async () => {
+      store(requisition({ id: 'req-1', status: 'LN', accounts: ['acc-1'] }));
+      strings.set(activeKey, 'req-1');
+
+      const renewal = await manager.renewRequisition('req-1', 'https://api.example.com/v1/requisitions/callback');
+      expect(renewal).toMatchObject({ renewed: true, requisition: { id: 'req-2', status: 'CR' } });
+      expect(await manager.getRenewal('req-1')).toBe('req-2');
+
+      // Accounts only follow a linked renewal
+      await manager.mapAccountToRequisition('acc-1', 'req-1');
+      expect(await manager.getAccountRequisition('acc-1')).toBe('req-1');
+
+      jest.setSystemTime(start + hours(25));
+      expect(await manager.expirePendingRequisitions()).toBe(1);
+      expect(await manager.getRenewal('req-1')).toBeNull();
+      expect(strings.get(activeKey)).toBe('req-1');
+      expect(strings.has('gc:requisition:renewed-from:req-2')).toBe(false);
+    });
+
+    it('moves accounts to a renewal once it is linked', async () => {
+      store(requisition({ id: 'req-1', status: 'LN', accounts: ['acc-1'] }));
+      await manager.renewRequisition('req-1', 'https://api.example.com/v1/requisitions/callback');
+
+      await manager.setKnownStatus('req-2', 'LN');
+      await manager.mapAccountToRequisition('acc-1', 'req-1');
+      expect(await manager.getAccountRequisition('acc-1')).toBe('req-2');
+    });
+  });
+});
+
+describe('institutions', () => {
+  let manager: RequisitionManager;
+
+  const byCountry: Record<string, Institution[]> = {
+    ES: [
+      institution({ id: 'SANTANDER_BSCHESMM', name: 'Santander', bic: 'BSCHESMM', countries: ['ES', 'PT'] }),
+      institution({ id: 'BBVA_BBVAESMM', name: 'BBVA', bic: 'BBVAESMM' }),
+    ],
+    PT: [
+      institution({ id: 'SANTANDER_BSCHESMM', name: 'Santander', bic: 'BSCHESMM', countries: ['ES', 'PT'] }),
+      institution({ id: 'MILLENNIUM_BCOMPTPL', name: 'Millennium bcp', bic: 'BCOMPTPL', countries: ['PT'] }),
+    ],
+  };
+
+  beforeEach(() => {
+    strings.clear();
+    api.get.mockReset().mockImplementation(async (url: string) => {
+      const country = new URL(url, 'https://bank.example.com').searchParams.get('country');
+      if (country) return { data: byCountry[country] || [] };
+      throw Object.assign(new Error('Not found'), { response: { status: 404 } });
+    });
+    cdnGet.mockReset();
+    manager = new RequisitionManager();
+  });
+
+  it('merges countries, lists each institution once and sorts by name', async () => {
+    const found = await manager.searchInstitutions(['ES', 'PT']);
+    expect(found.map(entry => entry.id)).toEqual(['BBVA_BBVAESMM', 'MILLENNIUM_BCOMPTPL', 'SANTANDER_BSCHESMM']);
+  });
+
+  it('matches the name, BIC or ID regardless of case', async () => {
+    const ids = async (query: string) => (await manager.searchInstitutions(['ES', 'PT'], query)).map(entry => entry.id);
+
+    expect(await ids(' santander ')).toEqual(['SANTANDER_BSCHESMM']);
+    expect(await ids('bcomptpl')).toEqual(['MILLENNIUM_BCOMPTPL']);
+    expect(await ids('revolut')).toEqual([]);
+    expect(await ids('bbva_')).toEqual(['BBVA_BBVAESMM']);
+  });
+
+  it('serves repeated searches and single institutions from the cache', async () => {
+    await manager.searchInstitutions(['ES', 'PT']);
+    await manager.searchInstitutions(['ES'], 'bbva');
+    expect(await manager.getInstitution('MILLENNIUM_BCOMPTPL')).toMatchObject({ name: 'Millennium bcp' });
+
+    expect(api.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('downloads a logo once and serves the cached copy afterwards', async () => {
+    await manager.listInstitutions('ES');
+    cdnGet.mockResolvedValue({ headers: { 'content-type': 'image/svg+xml' }, data: Buffer.from('<svg/>') });
+
+    const first = await manager.getInstitutionLogo('BBVA_BBVAESMM');
+    const second = await manager.getInstitutionLogo('BBVA_BBVAESMM');
+
+    expect(cdnGet).toHaveBeenCalledTimes(1);
+    expect(cdnGet).toHaveBeenCalledWith('https://example.com/logo.png', expect.objectContaining({ responseType: 'arraybuffer' }));
+    expect(second).toEqual(first);
+    expect(second).toEqual({ contentType: 'image/svg+xml', data: Buffer.from('<svg/>') });
+  });
+
+  it('has no logo for unknown institutions or missing images', async () => {
+    expect(await manager.getInstitutionLogo('UNKNOWN')).toBeNull();
+
+    await manager.listInstitutions('ES');
+    cdnGet.mockRejectedValue(Object.assign(new Error('Not found'), { response: { status: 404 } }));
+    expect(await manager.getInstitutionLogo('BBVA_BBVAESMM')).toBeNull();
+    expect(cdnGet).toHaveBeenCalledTimes(1);
+  });
+});
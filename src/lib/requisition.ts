@@ -2,22 +2,46 @@ import axios, { AxiosInstance } from 'axios';
 import { v4 as uuid } from 'uuid';
 import { getRedis } from './redis';
 import { getGCAuth } from './gcAuth';
+import { buildReference, referenceOwner } from './tenancy';
 import { logger } from '../logger';
 import { config } from '../config';
 
 const REQUISITION_PREFIX = 'gc:requisition:';
 const AGREEMENT_PREFIX = 'gc:agreement:';
-const INSTITUTION_CACHE_PREFIX = 'gc:institutions:';
+const INSTITUTION_CACHE_PREFIX = 'gc:institutions:'; // Per country
+const INSTITUTION_PREFIX = 'gc:institution:'; // Per institution ID
+const LOGO_PREFIX = 'gc:institution:logo:';
+const RENEWAL_PREFIX = 'gc:requisition:renewal:'; // Old requisition -> the one renewing it
+const RENEWED_FROM_PREFIX = 'gc:requisition:renewed-from:'; // Renewal -> the requisition it renews
+const REFERENCE_PREFIX = 'gc:requisition:ref:'; // Reference -> requisition ID
+const ACTIVE_PREFIX = 'gc:requisition:active:'; // <owner>:<institutionId> -> latest requisition ID
+const REPLACED_PREFIX = 'gc:requisition:replaced:'; // Requisition -> the active one it replaced
+const PENDING_KEY = 'gc:requisition:pending'; // Requisition IDs by creation time, until expired
+const STATUS_KEY = 'gc:requisition:status'; // Hash: requisition ID -> last observed status
+const PENDING_STATUSES = ['CR', 'GA', 'UA'];
+const RENEWABLE_STATUSES = ['LN', 'EX', 'SU']; // Consents that were given once
+const DEFAULT_ACCESS_VALID_FOR_DAYS = 90;
+const MAX_ACCESS_VALID_FOR_DAYS = 180; // GoCardless limit for institutions that publish none
+
+export const ACCESS_SCOPES = ['balances', 'details', 'transactions'];
 const REQUISITION_TTL = 90 * 24 * 60 * 60; // 90 days
 const INSTITUTION_CACHE_TTL = 24 * 60 * 60; // 1 day
+const LOGO_CACHE_TTL = 7 * 24 * 60 * 60; // Logos rarely change
 
 export interface Institution {
   id: string;
   name: string;
   bic: string;
   transaction_total_days: string;
+  max_access_valid_for_days?: string;
   countries: string[];
   logo: string;
+  supported_features?: string[];
+}
+
+export interface InstitutionLogo {
+  contentType: string;
+  data: Buffer;
 }
 
 export interface Agreement {
@@ -43,6 +67,21 @@ export interface Requisition {
   link: string;
 }
 
+export type RenewalResult =
+  | { renewed: true; requisition: Requisition; reused: boolean } // Reused: a renewal still in progress
+  | { renewed: false; reason: 'not_found' }
+  | { renewed: false; reason: 'not_renewable'; status: string };
+
+export interface AgreementParams {
+  maxHistoricalDays: number;
+  accessValidForDays: number;
+  accessScope: string[];
+}
+
+export type AgreementParamsResult =
+  | { valid: true; params: AgreementParams }
+  | { valid: false; message: string };
+
 export interface RequisitionStatus {
   CR: 'CREATED';     // Requisition created
   LN: 'LINKED';      // Account linked
@@ -54,6 +93,11 @@ export interface RequisitionStatus {
   SU: 'SUSPENDED';   // Access suspended
 }
 
+// Unowned requisitions share an empty owner segment
+function activeKey(institutionId: string, owner?: string | null): string {
+  return `${ACTIVE_PREFIX}${owner || ''}:${institutionId}`;
+}
+
 export class RequisitionManager {
   private client: AxiosInstance;
   private auth: ReturnType<typeof getGCAuth>;
@@ -99,13 +143,23 @@ export class RequisitionManager {
       
       const institutions = response.data as Institution[];
       
-      // Cache the result
+      // Cache the result, and each institution for getInstitution
       await redis.set(
         cacheKey,
         JSON.stringify(institutions),
         'EX',
         INSTITUTION_CACHE_TTL
       );
+      const pipeline = redis.pipeline();
+      for (const institution of institutions) {
+        pipeline.set(
+          `${INSTITUTION_PREFIX}${institution.id}`,
+          JSON.stringify(institution),
+          'EX',
+          INSTITUTION_CACHE_TTL
+        );
+      }
+      await pipeline.exec();
       
       logger.info({ 
         countryCode, 
@@ -119,16 +173,51 @@ export class RequisitionManager {
     }
   }
 
+  /**
+   * Institutions of several countries whose name, BIC or ID contains `query`
+   * (case-insensitive), sorted by name. Institutions serving more than one
+   * of the countries appear once.
+   */
+  async searchInstitutions(countryCodes: string[], query?: string): Promise<Institution[]> {
+    const lists = await Promise.all(countryCodes.map(country => this.listInstitutions(country)));
+    
+    const byId = new Map<string, Institution>();
+    for (const institution of lists.flat()) {
+      byId.set(institution.id, institution);
+    }
+    
+    const needle = query?.trim().toLowerCase();
+    return [...byId.values()]
+      .filter(institution => !needle || [institution.name, institution.bic, institution.id]
+        .some(value => value?.toLowerCase().includes(needle)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
   /**
    * Get a specific institution by ID
    */
   async getInstitution(institutionId: string): Promise<Institution | null> {
+    const redis = getRedis();
+    
     try {
+      const cached = await redis.get(`${INSTITUTION_PREFIX}${institutionId}`);
+      if (cached) {
+        return JSON.parse(cached) as Institution;
+      }
+      
       const response = await this.client.get(
         `/api/v2/institutions/${institutionId}/`
       );
       
-      return response.data as Institution;
+      const institution = response.data as Institution;
+      await redis.set(
+        `${INSTITUTION_PREFIX}${institutionId}`,
+        JSON.stringify(institution),
+        'EX',
+        INSTITUTION_CACHE_TTL
+      );
+      
+      return institution;
     } catch (err: any) {
       if (err.response?.status === 404) {
         return null;
@@ -138,6 +227,88 @@ export class RequisitionManager {
     }
   }
 
+  /**
+   * Institution logo, downloaded once and served from cache afterwards.
+   * Null if the institution or its logo is unknown.
+   */
+  async getInstitutionLogo(institutionId: string): Promise<InstitutionLogo | null> {
+    const redis = getRedis();
+    const key = `${LOGO_PREFIX}${institutionId}`;
+    
+    const cached = await redis.get(key);
+    if (cached) {
+      const { contentType, data } = JSON.parse(cached);
+      return { contentType, data: Buffer.from(data, 'base64') };
+    }
+    
+    const institution = await this.getInstitution(institutionId);
+    if (!institution?.logo) return null;
+    
+    try {
+      // Public CDN: no GoCardless auth header
+      const response = await axios.get(institution.logo, {
+        responseType: 'arraybuffer',
+        timeout: 10000,
+      });
+      
+      const logo: InstitutionLogo = {
+        contentType: String(response.headers['content-type'] || 'image/png'),
+        data: Buffer.from(response.data),
+      };
+      await redis.set(
+        key,
+        JSON.stringify({ contentType: logo.contentType, data: logo.data.toString('base64') }),
+        'EX',
+        LOGO_CACHE_TTL
+      );
+      
+      return logo;
+    } catch (err: any) {
+      if (err.response?.status === 404) {
+        return null;
+      }
+      logger.error({ err, institutionId }, 'Failed to fetch institution logo');
+      throw err;
+    }
+  }
+
+  /**
+   * Fill in agreement parameters the caller left out (full history the
+   * institution offers, 90 days of access, every scope) and check them
+   * against the institution's limits
+   */
+  async resolveAgreementParams(
+    institutionId: string,
+    requested: Partial<AgreementParams> = {}
+  ): Promise<AgreementParamsResult> {
+    const institution = await this.getInstitution(institutionId);
+    if (!institution) {
+      return { valid: false, message: `Unknown institution ${institutionId}` };
+    }
+    
+    const historyLimit = Number(institution.transaction_total_days) || 90;
+    const validityLimit = Number(institution.max_access_valid_for_days) || MAX_ACCESS_VALID_FOR_DAYS;
+    
+    const params: AgreementParams = {
+      maxHistoricalDays: requested.maxHistoricalDays ?? historyLimit,
+      accessValidForDays: requested.accessValidForDays ?? Math.min(DEFAULT_ACCESS_VALID_FOR_DAYS, validityLimit),
+      accessScope: [...new Set(requested.accessScope ?? ACCESS_SCOPES)],
+    };
+    
+    if (!Number.isInteger(params.maxHistoricalDays) || params.maxHistoricalDays < 1 || params.maxHistoricalDays > historyLimit) {
+      return { valid: false, message: `maxHistoricalDays must be between 1 and ${historyLimit} for ${institutionId}` };
+    }
+    if (!Number.isInteger(params.accessValidForDays) || params.accessValidForDays < 1 || params.accessValidForDays > validityLimit) {
+      return { valid: false, message: `accessValidForDays must be between 1 and ${validityLimit} for ${institutionId}` };
+    }
+    const unknownScope = params.accessScope.find(scope => !ACCESS_SCOPES.includes(scope));
+    if (params.accessScope.length === 0 || unknownScope) {
+      return { valid: false, message: `accessScope must be a non-empty subset of ${ACCESS_SCOPES.join(', ')}` };
+    }
+    
+    return { valid: true, params };
+  }
+
   /**
    * Create an end-user agreement
    */
@@ -160,15 +331,7 @@ export class RequisitionManager {
       
       const agreement = response.data as Agreement;
       
-      // Store in Redis
-      const redis = getRedis();
-      await redis.set(
-        `${AGREEMENT_PREFIX}${agreement.id}`,
-        JSON.stringify(agreement),
-        'EX',
-        accessValidForDays * 24 * 60 * 60
-      );
-      
+      // Not cached: it is only accepted once the user finishes the link
       logger.info({ 
         agreementId: agreement.id,
         institutionId 
@@ -181,6 +344,46 @@ export class RequisitionManager {
     }
   }
 
+  /**
+   * Get an end-user agreement by ID
+   */
+  async getAgreement(agreementId: string): Promise<Agreement | null> {
+    const redis = getRedis();
+    
+    try {
+      // Only accepted agreements are cached; before that the consent date
+      // is still unknown
+      const cached = await redis.get(`${AGREEMENT_PREFIX}${agreementId}`);
+      const cachedAgreement = cached ? JSON.parse(cached) as Agreement : null;
+      if (cachedAgreement?.accepted) {
+        return cachedAgreement;
+      }
+      
+      const response = await this.client.get(
+        `/api/v2/agreements/enduser/${agreementId}/`
+      );
+      
+      const agreement = response.data as Agreement;
+      
+      if (agreement.accepted) {
+        await redis.set(
+          `${AGREEMENT_PREFIX}${agreementId}`,
+          JSON.stringify(agreement),
+          'EX',
+          agreement.access_valid_for_days * 24 * 60 * 60
+        );
+      }
+      
+      return agreement;
+    } catch (err: any) {
+      if (err.response?.status === 404) {
+        return null;
+      }
+      logger.error({ err, agreementId }, 'Failed to get agreement');
+      throw err;
+    }
+  }
+
   /**
    * Create a requisition for bank account linking
    */
@@ -222,6 +425,21 @@ export class RequisitionManager {
         'EX',
         REQUISITION_TTL
       );
+      await redis.set(
+        `${REFERENCE_PREFIX}${requisition.reference}`,
+        requisition.id,
+        'EX',
+        REQUISITION_TTL
+      );
+      // Remember what this one replaces, to fall back to if it never links
+      const key = activeKey(institutionId, referenceOwner(requisition.reference));
+      const replaced = await redis.get(key);
+      if (replaced) {
+        await redis.set(`${REPLACED_PREFIX}${requisition.id}`, replaced, 'EX', REQUISITION_TTL);
+      }
+      await redis.set(key, requisition.id, 'EX', REQUISITION_TTL);
+      await redis.zadd(PENDING_KEY, Date.now(), requisition.id);
+      await this.setKnownStatus(requisition.id, requisition.status);
       
       logger.info({ 
         requisitionId: requisition.id,
@@ -238,15 +456,19 @@ export class RequisitionManager {
   }
 
   /**
-   * Get requisition by ID
+   * Get requisition by ID. Requisitions in a final status are served from
+   * cache unless `refresh` is set.
    */
-  async getRequisition(requisitionId: string): Promise<Requisition | null> {
+  async getRequisition(
+    requisitionId: string,
+    options: { refresh?: boolean } = {}
+  ): Promise<Requisition | null> {
     const redis = getRedis();
     
     try {
       // Check cache first
       const cached = await redis.get(`${REQUISITION_PREFIX}${requisitionId}`);
-      if (cached) {
+      if (cached && !options.refresh) {
         const requisition = JSON.parse(cached) as Requisition;
         
         // If status is final, return from cache
@@ -280,6 +502,190 @@ export class RequisitionManager {
     }
   }
 
+  /**
+   * Re-consent: create a new agreement (same parameters) and requisition for
+   * the same institution and owner, and move the account mapping over to it.
+   * Only consents that were given once can be renewed; a renewal still in
+   * progress is returned instead of creating another.
+   */
+  async renewRequisition(
+    requisitionId: string,
+    redirectUrl: string,
+    userLanguage?: string,
+    reference?: string
+  ): Promise<RenewalResult> {
+    const previous = await this.getRequisition(requisitionId);
+    if (!previous) return { renewed: false, reason: 'not_found' };
+
+    if (!RENEWABLE_STATUSES.includes(previous.status)) {
+      return { renewed: false, reason: 'not_renewable', status: previous.status };
+    }
+
+    const renewalId = await this.getRenewal(previous.id);
+    const pendingRenewal = renewalId ? await this.getRequisition(renewalId) : null;
+    if (
+      pendingRenewal &&
+      PENDING_STATUSES.includes(pendingRenewal.status) &&
+      !this.isPendingExpired(pendingRenewal)
+    ) {
+      return { renewed: true, requisition: pendingRenewal, reused: true };
+    }
+
+    const agreement = previous.agreement
+      ? await this.getAgreement(previous.agreement)
+      : null;
+
+    const newAgreement = await this.createAgreement(
+      previous.institution_id,
+      agreement?.max_historical_days,
+      agreement?.access_valid_for_days,
+      agreement?.access_scope
+    );
+
+    // References must be unique, so the owner gets a fresh one
+    const owner = referenceOwner(previous.reference);
+    const requisition = await this.createRequisition(
+      previous.institution_id,
+      redirectUrl,
+      newAgreement.id,
+      reference || (owner ? buildReference(owner) : undefined),
+      userLanguage || previous.user_language
+    );
+
+    const redis = getRedis();
+    // Accounts move over once the renewal is linked (queueInitialSync)
+    await redis.set(`${RENEWAL_PREFIX}${previous.id}`, requisition.id, 'EX', REQUISITION_TTL);
+    await redis.set(`${RENEWED_FROM_PREFIX}${requisition.id}`, previous.id, 'EX', REQUISITION_TTL);
+
+    logger.info({
+      requisitionId: requisition.id,
+      renewedFrom: previous.id,
+      institutionId: previous.institution_id,
+      accounts: previous.accounts?.length || 0,
+    }, 'Requisition renewed');
+
+    return { renewed: true, requisition, reused: false };
+  }
+
+  /**
+   * Requisition created to renew this one (null if never renewed)
+   */
+  async getRenewal(requisitionId: string): Promise<string | null> {
+    const redis = getRedis();
+    return redis.get(`${RENEWAL_PREFIX}${requisitionId}`);
+  }
+
+  /**
+   * Find a requisition by the reference it was created with
+   */
+  async getRequisitionByReference(reference: string): Promise<Requisition | null> {
+    const redis = getRedis();
+    const requisitionId = await redis.get(`${REFERENCE_PREFIX}${reference}`);
+    if (requisitionId) {
+      return this.getRequisition(requisitionId);
+    }
+    
+    // Created before references were indexed
+    const requisitions = await this.listRequisitions();
+    const match = requisitions.results.find(r => r.reference === reference);
+    return match ? this.getRequisition(match.id) : null;
+  }
+
+  /**
+   * Latest requisition of an owner at an institution that is still usable:
+   * linked, or pending and younger than the pending TTL. A stale pending
+   * requisition found here is deleted on the spot.
+   */
+  async findActiveRequisition(
+    institutionId: string,
+    owner?: string | null
+  ): Promise<Requisition | null> {
+    const redis = getRedis();
+    const key = activeKey(institutionId, owner);
+    const requisitionId = await redis.get(key);
+    if (!requisitionId) return null;
+    
+    const requisition = await this.getRequisition(requisitionId);
+    if (requisition && PENDING_STATUSES.includes(requisition.status)) {
+      if (!this.isPendingExpired(requisition)) return requisition;
+      
+      // Hands the key back to a linked requisition it replaced
+      await this.expireRequisition(requisition);
+      return this.findActiveRequisition(institutionId, owner);
+    }
+    if (requisition?.status === 'LN') return requisition;
+    
+    return this.releaseActiveKey(key, requisitionId);
+  }
+
+  /**
+   * Take a requisition off its active key, if the key still points at it.
+   * The key goes back to the requisition it replaced while that one is
+   * linked (e.g. a renewal nobody finished). Returns the requisition left
+   * active, if any.
+   */
+  private async releaseActiveKey(key: string, requisitionId: string): Promise<Requisition | null> {
+    const redis = getRedis();
+    if (await redis.get(key) !== requisitionId) return null;
+    
+    const replacedId = await redis.get(`${REPLACED_PREFIX}${requisitionId}`);
+    const replaced = replacedId ? await this.getRequisition(replacedId) : null;
+    if (replaced?.status === 'LN') {
+      await redis.set(key, replaced.id, 'EX', REQUISITION_TTL);
+      logger.info({ requisitionId, restored: replaced.id }, 'Active requisition restored');
+      return replaced;
+    }
+    
+    await redis.del(key);
+    return null;
+  }
+
+  /**
+   * Delete requisitions left unfinished (CR/GA/UA) for longer than the
+   * pending TTL. Returns how many were deleted.
+   */
+  async expirePendingRequisitions(): Promise<number> {
+    const redis = getRedis();
+    const cutoff = Date.now() - config.requisitions.pendingTtlHours * 60 * 60 * 1000;
+    const requisitionIds = await redis.zrangebyscore(PENDING_KEY, 0, cutoff);
+    let expired = 0;
+    
+    for (const requisitionId of requisitionIds) {
+      try {
+        const requisition = await this.getRequisition(requisitionId);
+        if (requisition && PENDING_STATUSES.includes(requisition.status)) {
+          await this.expireRequisition(requisition);
+          expired++;
+        } else {
+          await redis.zrem(PENDING_KEY, requisitionId);
+        }
+      } catch (err) {
+        logger.error({ err, requisitionId }, 'Failed to expire pending requisition');
+      }
+    }
+    
+    if (expired > 0) {
+      logger.info({ expired }, 'Expired pending requisitions');
+    }
+    
+    return expired;
+  }
+
+  private isPendingExpired(requisition: Requisition): boolean {
+    const age = Date.now() - new Date(requisition.created).getTime();
+    return age > config.requisitions.pendingTtlHours * 60 * 60 * 1000;
+  }
+
+  private async expireRequisition(requisition: Requisition): Promise<void> {
+    await this.deleteRequisition(requisition.id);
+    logger.info({
+      requisitionId: requisition.id,
+      institutionId: requisition.institution_id,
+      status: requisition.status,
+      created: requisition.created,
+    }, 'Pending requisition expired');
+  }
+
   /**
    * Delete a requisition
    */
@@ -287,9 +693,27 @@ export class RequisitionManager {
     try {
       await this.client.delete(`/api/v2/requisitions/${requisitionId}/`);
       
-      // Remove from cache
+      // Remove from cache and indexes
       const redis = getRedis();
+      const cached = await redis.get(`${REQUISITION_PREFIX}${requisitionId}`);
+      if (cached) {
+        const requisition = JSON.parse(cached) as Requisition;
+        await this.releaseActiveKey(
+          activeKey(requisition.institution_id, referenceOwner(requisition.reference)),
+          requisitionId
+        );
+      }
+      // A deleted renewal no longer renews anything
+      const renewedFrom = await redis.get(`${RENEWED_FROM_PREFIX}${requisitionId}`);
+      if (renewedFrom && await redis.get(`${RENEWAL_PREFIX}${renewedFrom}`) === requisitionId) {
+        await redis.del(`${RENEWAL_PREFIX}${renewedFrom}`);
+      }
       await redis.del(`${REQUISITION_PREFIX}${requisitionId}`);
+      await redis.del(`${REPLACED_PREFIX}${requisitionId}`);
+      await redis.del(`${RENEWED_FROM_PREFIX}${requisitionId}`);
+      await redis.del(`${RENEWAL_PREFIX}${requisitionId}`);
+      await redis.zrem(PENDING_KEY, requisitionId);
+      await redis.hdel(STATUS_KEY, requisitionId);
       
       logger.info({ requisitionId }, 'Deleted requisition');
     } catch (err: any) {
@@ -371,6 +795,35 @@ export class RequisitionManager {
     }
   }
 
+  /**
+   * Every requisition, following pagination
+   */
+  async listAllRequisitions(): Promise<Requisition[]> {
+    const requisitions: Requisition[] = [];
+    const pageSize = 100;
+    
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.listRequisitions(pageSize, offset);
+      requisitions.push(...page.results);
+      if (!page.next || page.results.length === 0) break;
+    }
+    
+    return requisitions;
+  }
+
+  /**
+   * Status the requisition had when last observed (null if never seen)
+   */
+  async getKnownStatus(requisitionId: string): Promise<Requisition['status'] | null> {
+    const redis = getRedis();
+    return (await redis.hget(STATUS_KEY, requisitionId)) as Requisition['status'] | null;
+  }
+
+  async setKnownStatus(requisitionId: string, status: Requisition['status']): Promise<void> {
+    const redis = getRedis();
+    await redis.hset(STATUS_KEY, requisitionId, status);
+  }
+
   /**
    * Store account-requisition mapping
    */
@@ -381,9 +834,29 @@ export class RequisitionManager {
     const redis = getRedis();
     const key = `gc:account:requisition:${accountId}`;
     
-    await redis.set(key, requisitionId, 'EX', REQUISITION_TTL);
+    // Accounts of a renewed requisition follow the renewal once it is linked
+    let target = requisitionId;
+    for (let depth = 0; depth < 5; depth++) {
+      const renewal = await this.getRenewal(target);
+      if (!renewal || await this.getKnownStatus(renewal) !== 'LN') break;
+      target = renewal;
+    }
+    
+    await redis.set(key, target, 'EX', REQUISITION_TTL);
+    
+    logger.debug({ accountId, requisitionId: target }, 'Mapped account to requisition');
+  }
+
+  /**
+   * Data the account's consent covers (every scope when unknown, e.g.
+   * accounts of other providers)
+   */
+  async getAccountAccessScope(accountId: string): Promise<string[]> {
+    const requisitionId = await this.getAccountRequisition(accountId);
+    const requisition = requisitionId ? await this.getRequisition(requisitionId) : null;
+    const agreement = requisition?.agreement ? await this.getAgreement(requisition.agreement) : null;
     
-    logger.debug({ accountId, requisitionId }, 'Mapped account to requisition');
+    return agreement?.access_scope || ACCESS_SCOPES;
   }
 
   /**
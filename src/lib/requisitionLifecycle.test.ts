@@ -0,0 +1,154 @@
+import { Requisition } from './requisition';
+
+const lists = new Map<string, string[]>();
+const knownStatuses = new Map<string, Requisition['status']>();
+const listed: Requisition[] = [];
+const fetched = new Map<string, Requisition>();
+const getRequisition = jest.fn();
+const emit = jest.fn();
+const notifyConsentExpired = jest.fn();
+
+function list(key: string): string[] {
+  if (!lists.has(key)) lists.set(key, []);
+  return lists.get(key)!;
+}
+
+// Just the commands transitions use
+const fakeRedis = {
+  lpush: async (key: string, value: string) => list(key).unshift(value),
+  ltrim: async (key: string, start: number, stop: number) => {
+    lists.set(key, list(key).slice(start, stop + 1));
+    return 'OK';
+  },
+  expire: async () => 1,
+  lrange: async (key: string) => [...list(key)],
+};
+
+jest.mock('./redis', () => ({ getRedis: () => fakeRedis }));
+jest.mock('./requisition', () => ({
+  getRequisitionManager: () => ({
+    getKnownStatus: async (id: string) => knownStatuses.get(id) ?? null,
+    setKnownStatus: async (id: string, status: Requisition['status']) => {
+      knownStatuses.set(id, status);
+    },
+    listAllRequisitions: async () => listed,
+    getRequisition: (...args: unknown[]) => getRequisition(...args),
+  }),
+}));
+jest.mock('./events', () => ({ emit: (...args: unknown[]) => emit(...args) }));
+jest.mock('./consent', () => ({ notifyConsentExpired: (...args: unknown[]) => notifyConsentExpired(...args) }));
+jest.mock('../logger', () => ({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { getRequisitionTransitions, observeRequisition, reconcileRequisitions } from './requisitionLifecycle';
+
+function requisition(overrides: Partial<Requisition> = {}): Requisition {
+  return {
+    id: 'req-1',
+    created: '2024-03-01T10:00:00Z',
+    redirect: 'https://api.example.com/v1/requisitions/callback',
+    status: 'CR',
+    institution_id: 'BANK_ID',
+    agreement: 'agr-1',
+    reference: 'user-1:ref',
+    accounts: [],
+    user_language: 'EN',
+    link: 'https://example.com/link',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  lists.clear();
+  knownStatuses.clear();
+  listed.length = 0;
+  fetched.clear();
+  getRequisition.mockReset().mockImplementation(async (id: string) => fetched.get(id) ?? null);
+  emit.mockReset();
+  notifyConsentExpired.mockReset();
+  jest.useFakeTimers().setSystemTime(new Date('2024-03-01T12:00:00Z'));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('observeRequisition', () => {
+  it('only records a baseline the first time a requisition is seen', async () => {
+    expect(await observeRequisition(requisition({ status: 'LN' }))).toBe(false);
+    expect(knownStatuses.get('req-1')).toBe('LN');
+    expect(emit).not.toHaveBeenCalled();
+    expect(await getRequisitionTransitions('req-1')).toEqual([]);
+  });
+
+  it('records a status change and emits its event once', async () => {
+    knownStatuses.set('req-1', 'CR');
+    const linked = requisition({ status: 'LN', accounts: ['acc-1'] });
+
+    expect(await observeRequisition(linked)).toBe(true);
+    expect(await observeRequisition(linked)).toBe(false);
+
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith('bank.requisition.linked', expect.objectContaining({
+      requisitionId: 'req-1',
+      status: 'LN',
+      previousStatus: 'CR',
+      accountIds: ['acc-1'],
+      userId: 'user-1',
+    }));
+    expect(await getRequisitionTransitions('req-1')).toEqual([
+      { from: 'CR', to: 'LN', at: '2024-03-01T12:00:00.000Z' },
+    ]);
+  });
+
+  it('leaves expiry to the consent notifications and skips statuses without an event', async () => {
+    knownStatuses.set('req-1', 'LN');
+    await observeRequisition(requisition({ status: 'EX' }));
+    expect(notifyConsentExpired).toHaveBeenCalledTimes(1);
+
+    knownStatuses.set('req-2', 'CR');
+    expect(await observeRequisition(requisition({ id: 'req-2', status: 'GA' }))).toBe(true);
+    expect(emit).not.toHaveBeenCalled();
+  });
+});
+
+describe('reconcileRequisitions', () => {
+  it('fetches only requisitions whose listed status moved', async () => {
+    knownStatuses.set('req-1', 'CR');
+    knownStatuses.set('req-2', 'LN');
+    listed.push(requisition({ id: 'req-1', status: 'LN' }), requisition({ id: 'req-2', status: 'LN' }));
+    fetched.set('req-1', requisition({ id: 'req-1', status: 'LN' }));
+
+    expect(await reconcileRequisitions()).toEqual({ checked: 2, changed: 1 });
+    expect(getRequisition).toHaveBeenCalledTimes(1);
+    expect(getRequisition).toHaveBeenCalledWith('req-1', { refresh: true });
+    expect(emit).toHaveBeenCalledWith('bank.requisition.linked', expect.objectContaining({ requisitionId: 'req-1' }));
+  });
+
+  it('skips requisitions already in a final status', async () => {
+    knownStatuses.set('req-1', 'RJ');
+    knownStatuses.set('req-2', 'SU');
+    listed.push(requisition({ id: 'req-1', status: 'RJ' }), requisition({ id: 'req-2', status: 'LN' }));
+
+    expect(await reconcileRequisitions()).toEqual({ checked: 0, changed: 0 });
+    expect(getRequisition).not.toHaveBeenCalled();
+  });
+
+  it('records a baseline for requisitions it has not seen before', async () => {
+    listed.push(requisition({ status: 'GA' }));
+    fetched.set('req-1', requisition({ status: 'GA' }));
+
+    expect(await reconcileRequisitions()).toEqual({ checked: 1, changed: 0 });
+    expect(knownStatuses.get('req-1')).toBe('GA');
+  });
+
+  it('carries on past a requisition that fails to load', async () => {
+    listed.push(requisition({ id: 'req-1', status: 'LN' }), requisition({ id: 'req-2', status: 'SU' }));
+    knownStatuses.set('req-1', 'CR');
+    knownStatuses.set('req-2', 'LN');
+    fetched.set('req-2', requisition({ id: 'req-2', status: 'SU' }));
+    getRequisition.mockRejectedValueOnce(new Error('timeout'));
+
+    expect(await reconcileRequisitions()).toEqual({ checked: 2, changed: 1 });
+    expect(emit).toHaveBeenCalledWith('bank.requisition.suspended', expect.objectContaining({ requisitionId: 'req-2' }));
+  });
+});
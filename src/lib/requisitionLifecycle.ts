@@ -0,0 +1,121 @@
+import { emit, EventType } from './events';
+import { Requisition, getRequisitionManager } from './requisition';
+import { notifyConsentExpired } from './consent';
+import { getRedis } from './redis';
+import { referenceOwner } from './tenancy';
+import { logger } from '../logger';
+
+const TRANSITIONS_PREFIX = 'gc:requisition:transitions:'; // Status changes per requisition, newest first
+const TRANSITIONS_TTL = 180 * 24 * 60 * 60;
+const MAX_TRANSITIONS = 50;
+const TERMINAL_STATUSES = ['RJ', 'ER', 'EX', 'SU'];
+
+// bank.requisition.expired goes through the consent check's deduplication
+const STATUS_EVENTS: Partial<Record<Requisition['status'], EventType>> = {
+  LN: 'bank.requisition.linked',
+  RJ: 'bank.requisition.rejected',
+  SU: 'bank.requisition.suspended',
+};
+
+export interface RequisitionTransition {
+  from: Requisition['status'];
+  to: Requisition['status'];
+  at: string;
+}
+
+/**
+ * Compare a freshly fetched requisition with its last observed status,
+ * record the transition and emit its lifecycle event. The first sighting of
+ * a requisition only records a baseline. Returns true if the status changed.
+ */
+export async function observeRequisition(requisition: Requisition): Promise<boolean> {
+  const manager = getRequisitionManager();
+  const previous = await manager.getKnownStatus(requisition.id);
+  if (previous === requisition.status) return false;
+
+  await manager.setKnownStatus(requisition.id, requisition.status);
+  if (!previous) return false;
+
+  const transition: RequisitionTransition = {
+    from: previous,
+    to: requisition.status,
+    at: new Date().toISOString(),
+  };
+
+  const redis = getRedis();
+  const key = `${TRANSITIONS_PREFIX}${requisition.id}`;
+  await redis.lpush(key, JSON.stringify(transition));
+  await redis.ltrim(key, 0, MAX_TRANSITIONS - 1);
+  await redis.expire(key, TRANSITIONS_TTL);
+
+  logger.info({
+    requisitionId: requisition.id,
+    institutionId: requisition.institution_id,
+    from: previous,
+    to: requisition.status,
+  }, 'Requisition status changed');
+
+  if (requisition.status === 'EX') {
+    await notifyConsentExpired(requisition);
+    return true;
+  }
+
+  const eventType = STATUS_EVENTS[requisition.status];
+  if (eventType) {
+    await emit(eventType, {
+      requisitionId: requisition.id,
+      institutionId: requisition.institution_id,
+      status: requisition.status,
+      previousStatus: previous,
+      accountIds: requisition.accounts || [],
+      reference: requisition.reference,
+      userId: referenceOwner(requisition.reference) || undefined,
+      changedAt: transition.at,
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Recorded status changes of a requisition, newest first
+ */
+export async function getRequisitionTransitions(requisitionId: string): Promise<RequisitionTransition[]> {
+  const redis = getRedis();
+  const entries = await redis.lrange(`${TRANSITIONS_PREFIX}${requisitionId}`, 0, -1);
+  return entries.map(entry => JSON.parse(entry) as RequisitionTransition);
+}
+
+/**
+ * Compare the listed status of every requisition not yet in a final status
+ * (RJ, ER, EX, SU) with its last observed one, and observe those that moved.
+ * Catches transitions no webhook or callback reported, e.g. a bank
+ * suspending access.
+ */
+export async function reconcileRequisitions(): Promise<{ checked: number; changed: number }> {
+  const manager = getRequisitionManager();
+  let checked = 0;
+  let changed = 0;
+
+  for (const listed of await manager.listAllRequisitions()) {
+    try {
+      const known = await manager.getKnownStatus(listed.id);
+      if (known && TERMINAL_STATUSES.includes(known)) continue;
+
+      // The listing carries the status; details are only fetched when it moved
+      checked++;
+      if (known === listed.status) continue;
+
+      const requisition = await manager.getRequisition(listed.id, { refresh: true });
+      if (!requisition) continue;
+
+      if (await observeRequisition(requisition)) changed++;
+    } catch (err) {
+      logger.error({ err, requisitionId: listed.id }, 'Failed to reconcile requisition');
+    }
+  }
+
+  logger.info({ checked, changed }, 'Requisition reconciliation completed');
+
+  return { checked, changed };
+}
@@ -0,0 +1,71 @@
+// Just the commands queueing uses; no quota has been spent
+const fakeRedis = {
+  get: async () => null,
+  zadd: async () => 1,
+  zrem: async () => 1,
+};
+
+jest.mock('./redis', () => ({ getRedis: () => fakeRedis }));
+jest.mock('./provider', () => ({}));
+jest.mock('./repository', () => ({}));
+jest.mock('./accountIdentity', () => ({}));
+jest.mock('./consent', () => ({}));
+jest.mock('./requisition', () => ({}));
+jest.mock('./requisitionLifecycle', () => ({}));
+jest.mock('./reconciliation', () => ({}));
+jest.mock('./accountDetails', () => ({}));
+jest.mock('../workers/syncRunner', () => ({}));
+jest.mock('../workers/backfillRunner', () => ({}));
+jest.mock('../logger', () => ({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { ScheduledTask, SmartScheduler } from './scheduler';
+
+describe('scheduleTransactionSync', () => {
+  let scheduler: SmartScheduler;
+  let scheduled: ScheduledTask[];
+
+  beforeEach(() => {
+    scheduler = new SmartScheduler();
+    scheduled = [];
+    scheduler.on('taskScheduled', task => scheduled.push(task));
+  });
+
+  it('widens a queued ranged sync instead of queueing another', async () => {
+    await scheduler.scheduleTransactionSync('acc-1', 1, { fromDate: '2024-03-10', toDate: '2024-03-20', preserveCursor: true });
+    await scheduler.scheduleTransactionSync('acc-1', 1, { fromDate: '2024-03-05', toDate: '2024-03-31', preserveCursor: true });
+
+    expect(scheduled).toHaveLength(1);
+    expect(scheduled[0].options).toEqual({ fromDate: '2024-03-05', toDate: '2024-03-31', preserveCursor: true });
+  });
+
+  it('has a queued incremental sync read back to the start of the range', async () => {
+    await scheduler.scheduleTransactionSync('acc-1', 3);
+    await scheduler.scheduleTransactionSync('acc-1', 1, { fromDate: '2024-03-10', toDate: '2024-03-31' });
+    await scheduler.scheduleTransactionSync('acc-1', 1, { fromDate: '2024-03-15', toDate: '2024-03-31' });
+
+    expect(scheduled).toHaveLength(1);
+    expect(scheduled[0].options).toEqual({ earliestFrom: '2024-03-10' });
+  });
+
+  it('keeps syncs of other accounts and incremental syncs separate', async () => {
+    await scheduler.scheduleTransactionSync('acc-1', 1, { fromDate: '2024-03-10' });
+    await scheduler.scheduleTransactionSync('acc-2', 1, { fromDate: '2024-03-10' });
+    await scheduler.scheduleTransactionSync('acc-1', 3);
+
+    expect(scheduled.map(task => task.accountId)).toEqual(['acc-1', 'acc-2', 'acc-1']);
+  });
+});
+
+describe('scheduleBalanceSync', () => {
+  it('queues one balance fetch per account', async () => {
+    const scheduler = new SmartScheduler();
+    const scheduled: ScheduledTask[] = [];
+    scheduler.on('taskScheduled', task => scheduled.push(task));
+
+    await scheduler.scheduleBalanceSync('acc-1');
+    await scheduler.scheduleBalanceSync('acc-1');
+    await scheduler.scheduleBalanceSync('acc-2');
+
+    expect(scheduled.map(task => task.accountId)).toEqual(['acc-1', 'acc-2']);
+  });
+});
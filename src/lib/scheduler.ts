@@ -1,13 +1,24 @@
 import { getRedis } from './redis';
-import { getGCClient } from './gcClient';
+import { getAccountProvider, listLinkedAccountIds, primaryBalance } from './provider';
+import { saveBalances } from './repository';
+import { getCurrentProviderAccountId, identifyAccount, resolveAccountId } from './accountIdentity';
+import { checkConsentExpiry } from './consent';
 import { getRequisitionManager } from './requisition';
+import { reconcileRequisitions } from './requisitionLifecycle';
+import { reconcileBalances } from './reconciliation';
+import { needsDetailsRefresh, saveAccountDetails } from './accountDetails';
+import { SyncOptions, createOperation, startSync } from '../workers/syncRunner';
+import { ensureInitialBackfill, runBackfillChunk } from '../workers/backfillRunner';
 import { logger } from '../logger';
+import { config } from '../config';
 import { EventEmitter } from 'events';
 
 export interface ScheduledTask {
   id: string;
-  type: 'balance' | 'transactions' | 'details';
+  type: 'balance' | 'transactions' | 'details' | 'backfill';
   accountId: string;
+  operationId?: string; // Backfill operation the task belongs to
+  options?: SyncOptions; // Narrow transaction sync (e.g. triggered by a webhook)
   priority: number;
   retryCount: number;
   nextRunTime: Date;
@@ -19,6 +30,11 @@ export class SmartScheduler extends EventEmitter {
   private queue: ScheduledTask[] = [];
   private intervalId?: NodeJS.Timeout;
   private lastDailyCheck?: Date;
+  private lastConsentCheck?: Date;
+  private lastRequisitionReconcile?: Date;
+  private lastBalanceReconcile?: Date;
+  private runningTaskId?: string;
+  private ticking = false; // A tick is still working; later ones are skipped
   
   // Rate limit tracking
   private readonly DAILY_LIMIT = 4; // GoCardless actual limit for balance endpoint
@@ -42,6 +58,10 @@ export class SmartScheduler extends EventEmitter {
     
     // Schedule periodic checks every 30 seconds
     this.intervalId = setInterval(async () => {
+      // Skip a tick while the previous one is still working
+      if (this.ticking) return;
+      this.ticking = true;
+
       try {
         await this.processTasks();
         
@@ -50,17 +70,45 @@ export class SmartScheduler extends EventEmitter {
         if (!this.lastDailyCheck || (now.getTime() - this.lastDailyCheck.getTime()) > 30 * 60 * 1000) {
           await this.scheduleDailySyncs();
           this.lastDailyCheck = now;
+          
+          // Links nobody finished would otherwise pile up as orphan consents
+          await getRequisitionManager().expirePendingRequisitions();
+        }
+        
+        // Warn about consents running out
+        if (!this.lastConsentCheck || (now.getTime() - this.lastConsentCheck.getTime()) > config.consent.checkIntervalHours * 3600 * 1000) {
+          this.lastConsentCheck = now;
+          await checkConsentExpiry();
+        }
+        
+        // Pick up requisition status changes nobody reported
+        if (!this.lastRequisitionReconcile || (now.getTime() - this.lastRequisitionReconcile.getTime()) > config.requisitions.reconcileIntervalMinutes * 60 * 1000) {
+          this.lastRequisitionReconcile = now;
+          await reconcileRequisitions();
+        }
+        
+        // Check stored transactions explain the balance movements
+        if (!this.lastBalanceReconcile || (now.getTime() - this.lastBalanceReconcile.getTime()) > config.reconciliation.intervalHours * 3600 * 1000) {
+          this.lastBalanceReconcile = now;
+          await reconcileBalances();
         }
       } catch (err) {
         logger.error({ err }, 'Error processing scheduled tasks');
+      } finally {
+        this.ticking = false;
       }
     }, 30000);
     
-    // Schedule daily syncs for all accounts
-    await this.scheduleDailySyncs();
-    
-    // Process immediately
-    await this.processTasks();
+    this.ticking = true;
+    try {
+      // Schedule daily syncs for all accounts
+      await this.scheduleDailySyncs();
+      
+      // Process immediately
+      await this.processTasks();
+    } finally {
+      this.ticking = false;
+    }
   }
 
   async stop() {
@@ -73,6 +121,9 @@ export class SmartScheduler extends EventEmitter {
   }
 
   async scheduleBalanceSync(accountId: string, priority = 5) {
+    // Account reads ask for a refresh; one queued fetch answers them all
+    if (this.queue.some(t => t.type === 'balance' && t.accountId === accountId && t.id !== this.runningTaskId)) return;
+    
     const task: ScheduledTask = {
       id: `balance:${accountId}:${Date.now()}`,
       type: 'balance',
@@ -85,7 +136,41 @@ export class SmartScheduler extends EventEmitter {
     await this.addTask(task);
   }
 
-  async scheduleTransactionSync(accountId: string, priority = 3) {
+  /**
+   * Queue a transaction sync. Ranged syncs for an account that already has
+   * one queued are merged into it instead of spending another request.
+   */
+  async scheduleTransactionSync(accountId: string, priority = 3, options?: SyncOptions) {
+    if (options?.fromDate) {
+      const queued = this.queue.find(t =>
+        t.type === 'transactions' && t.accountId === accountId && t.id !== this.runningTaskId
+      );
+      
+      if (queued) {
+        if (queued.options?.fromDate) {
+          // Widen a queued ranged sync
+          await this.updateTask(queued, {
+            options: {
+              ...queued.options,
+              fromDate: [queued.options.fromDate, options.fromDate].sort()[0],
+              toDate: [queued.options.toDate || '', options.toDate || ''].sort()[1] || undefined,
+            },
+          });
+        } else {
+          // A queued incremental sync reads up to today, but only from its
+          // cursor: have it read back to the start of the range too
+          await this.updateTask(queued, {
+            options: {
+              ...queued.options,
+              earliestFrom: [queued.options?.earliestFrom || options.fromDate, options.fromDate].sort()[0],
+            },
+          });
+        }
+        logger.debug({ accountId, task: queued.id }, 'Transaction sync merged into queued task');
+        return;
+      }
+    }
+    
     const task: ScheduledTask = {
       id: `transactions:${accountId}:${Date.now()}`,
       type: 'transactions',
@@ -93,39 +178,86 @@ export class SmartScheduler extends EventEmitter {
       priority,
       retryCount: 0,
       nextRunTime: new Date(),
+      options,
+    };
+    
+    await this.addTask(task);
+  }
+
+  async scheduleDetailsSync(accountId: string, priority = 4) {
+    // Details rarely change: one queued fetch is enough
+    if (this.queue.some(t => t.type === 'details' && t.accountId === accountId)) return;
+    
+    const task: ScheduledTask = {
+      id: `details:${accountId}:${Date.now()}`,
+      type: 'details',
+      accountId,
+      priority,
+      retryCount: 0,
+      nextRunTime: new Date(),
     };
     
     await this.addTask(task);
   }
 
+  async scheduleBackfillChunk(accountId: string, operationId: string, priority = 2) {
+    // A backfill runs one chunk at a time; a second chain would sync its chunks twice
+    const queued = this.queue.find(t =>
+      t.type === 'backfill' && t.operationId === operationId && t.id !== this.runningTaskId
+    );
+    if (queued) {
+      logger.debug({ accountId, operationId, taskId: queued.id }, 'Backfill chunk already queued');
+      return;
+    }
+    
+    const task: ScheduledTask = {
+      id: `backfill:${accountId}:${Date.now()}`,
+      type: 'backfill',
+      accountId,
+      operationId,
+      priority,
+      retryCount: 0,
+      nextRunTime: new Date(),
+    };
+    
+    await this.addTask(task);
+  }
+
+  /**
+   * Whether a chunk of the backfill is queued or running
+   */
+  hasBackfillTask(operationId: string): boolean {
+    return this.queue.some(t => t.type === 'backfill' && t.operationId === operationId);
+  }
+
   async scheduleDailySyncs() {
     const redis = await getRedis();
     
     try {
-      // Get all account IDs from requisitions
-      const { getRequisitionManager } = await import('./requisition');
-      const manager = getRequisitionManager();
-      const requisitions = await manager.listRequisitions();
-      
-      // Get all unique account IDs from active requisitions
-      const accountIds = new Set<string>();
-      for (const req of requisitions.results) {
-        if (req.status === 'LN') { // Only linked requisitions
-          req.accounts.forEach((accountId: string) => accountIds.add(accountId));
-        }
-      }
+      // Get all linked account IDs across providers
+      const accountIds = await listLinkedAccountIds();
       
-      logger.info({ accountCount: accountIds.size }, 'Scheduling daily syncs for all accounts');
+      logger.info({ accountCount: accountIds.length }, 'Scheduling daily syncs for all accounts');
       
       // Schedule both balance and transaction syncs for each account
       for (const accountId of accountIds) {
+        // An ID superseded by a re-link (old consent still active) would
+        // only sync the same account twice
+        const internalId = await identifyAccount(accountId);
+        if ((await getCurrentProviderAccountId(internalId)) !== accountId) {
+          logger.debug({ accountId, internalId }, 'Skipping superseded account ID');
+          continue;
+        }
+        
         // Check if we already have syncs scheduled for today
         const today = new Date().toISOString().split('T')[0];
         const balanceKey = `daily:balance:${accountId}:${today}`;
         const transactionKey = `daily:transaction:${accountId}:${today}`;
         
-        const balanceScheduled = await redis.get(balanceKey);
-        const transactionScheduled = await redis.get(transactionKey);
+        // Data outside the consent's access scope would only fail
+        const scope = await getRequisitionManager().getAccountAccessScope(accountId);
+        const balanceScheduled = !scope.includes('balances') || await redis.get(balanceKey);
+        const transactionScheduled = !scope.includes('transactions') || await redis.get(transactionKey);
         
         if (!balanceScheduled) {
           await this.scheduleBalanceSync(accountId, 5);
@@ -133,11 +265,20 @@ export class SmartScheduler extends EventEmitter {
           logger.info({ accountId }, 'Scheduled daily balance sync');
         }
         
-        if (!transactionScheduled) {
+        // Newly linked accounts get their full history instead
+        if (!transactionScheduled && await ensureInitialBackfill(accountId)) {
+          await redis.setex(transactionKey, 86400, '1');
+          logger.info({ accountId }, 'Scheduled initial backfill');
+        } else if (!transactionScheduled) {
           await this.scheduleTransactionSync(accountId, 3);
           await redis.setex(transactionKey, 86400, '1'); // Mark as scheduled for today
           logger.info({ accountId }, 'Scheduled daily transaction sync');
         }
+        
+        // Accounts linked before details were fetched, or due for a refresh
+        if (scope.includes('details') && await needsDetailsRefresh(accountId)) {
+          await this.scheduleDetailsSync(accountId, 4);
+        }
       }
       
     } catch (err) {
@@ -170,6 +311,19 @@ export class SmartScheduler extends EventEmitter {
     this.emit('taskScheduled', task);
   }
 
+  private async updateTask(task: ScheduledTask, updates: Partial<ScheduledTask>) {
+    const redis = await getRedis();
+    
+    // Queue entries are keyed by their serialized form
+    await redis.zrem('scheduler:queue', JSON.stringify(task));
+    Object.assign(task, updates);
+    await redis.zadd(
+      'scheduler:queue',
+      task.nextRunTime.getTime(),
+      JSON.stringify(task)
+    );
+  }
+
   private async canRunTask(task: ScheduledTask): Promise<{ allowed: boolean; nextAvailableTime?: Date; reason?: string }> {
     const redis = await getRedis();
     const now = new Date();
@@ -243,7 +397,6 @@ export class SmartScheduler extends EventEmitter {
     
     const redis = await getRedis();
     const now = new Date();
-    const gcClient = getGCClient();
     
     // Get tasks that are ready to run
     const readyTasks = this.queue.filter(t => t.nextRunTime <= now);
@@ -279,6 +432,7 @@ export class SmartScheduler extends EventEmitter {
       }
       
       // Execute the task
+      this.runningTaskId = task.id;
       try {
         logger.info({ task: task.id, type: task.type }, 'Executing scheduled task');
         
@@ -293,15 +447,19 @@ export class SmartScheduler extends EventEmitter {
         await redis.expire(minuteKey, 60);
         
         // Execute based on task type
+        const provider = await getAccountProvider(task.accountId);
         switch (task.type) {
           case 'balance':
-            const balanceData = await gcClient.getBalance(task.accountId);
+            const balances = await provider.getBalances(task.accountId);
+            const balanceData = primaryBalance(balances);
             if (balanceData) {
+              await saveBalances(await resolveAccountId(task.accountId), balances);
               await redis.setex(
                 `balance:${task.accountId}`,
                 3600,
                 JSON.stringify({
                   balance: balanceData,
+                  balances,
                   timestamp: Date.now(),
                 })
               );
@@ -311,31 +469,30 @@ export class SmartScheduler extends EventEmitter {
             break;
             
           case 'transactions':
-            const transactions = await gcClient.listTransactions(task.accountId);
-            await redis.setex(
-              `transactions:${task.accountId}`,
-              3600,
-              JSON.stringify({
-                transactions: transactions,
-                timestamp: Date.now(),
-              })
-            );
-            logger.info({ accountId: task.accountId }, 'Transactions synced successfully');
-            this.emit('transactionsSynced', { accountId: task.accountId, transactions });
+            // Run the full pipeline so transactions are deduped, stored and emitted
+            const operation = await createOperation(task.accountId);
+            const result = await startSync(task.accountId, operation.operationId, task.options);
+            logger.info({ accountId: task.accountId, operationId: operation.operationId }, 'Transactions synced successfully');
+            this.emit('transactionsSynced', { accountId: task.accountId, ...result });
+            break;
+            
+          case 'backfill':
+            // One chunk per task so every chunk counts against the daily quota
+            const done = await runBackfillChunk(task.operationId!);
+            if (!done) {
+              await this.scheduleBackfillChunk(task.accountId, task.operationId!, task.priority);
+            }
+            this.emit('backfillChunkSynced', { accountId: task.accountId, operationId: task.operationId, done });
             break;
             
           case 'details':
-            const details = await gcClient.getAccountDetails(task.accountId);
-            await redis.setex(
-              `details:${task.accountId}`,
-              86400, // Cache for 24 hours
-              JSON.stringify({
-                details,
-                timestamp: Date.now(),
-              })
-            );
+            const details = await provider.getAccountDetails(task.accountId);
+            if (!details) {
+              throw new Error('Account details unavailable');
+            }
+            const stored = await saveAccountDetails(task.accountId, provider.name, details);
             logger.info({ accountId: task.accountId }, 'Account details synced successfully');
-            this.emit('detailsSynced', { accountId: task.accountId, details });
+            this.emit('detailsSynced', { accountId: task.accountId, details: stored });
             break;
         }
         
@@ -416,6 +573,8 @@ export class SmartScheduler extends EventEmitter {
             this.emit('taskFailed', { task, error: error.message });
           }
         }
+      } finally {
+        this.runningTaskId = undefined;
       }
     }
   }
@@ -426,18 +585,7 @@ export class SmartScheduler extends EventEmitter {
     const today = now.toISOString().split('T')[0];
     
     // Get all accounts
-    const reqManager = getRequisitionManager();
-    const reqData = await reqManager.listRequisitions();
-    const requisitions = reqData.results;
-    const accounts: string[] = [];
-    
-    for (const req of requisitions) {
-      if (req.status === 'LN' && req.accounts) {
-        accounts.push(...req.accounts);
-      }
-    }
-    
-    const uniqueAccounts = [...new Set(accounts)];
+    const uniqueAccounts = await listLinkedAccountIds();
     
     // Get rate limit status for each account
     const accountStatus = await Promise.all(
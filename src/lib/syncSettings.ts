@@ -0,0 +1,55 @@
+import { getRedis } from './redis';
+import { logger } from '../logger';
+import { config } from '../config';
+
+const SETTINGS_PREFIX = 'gc:sync:settings:';
+
+export interface SyncSettings {
+  overlapDays: number; // Days re-read before the cursor on every incremental sync
+  deepScanDays: number; // Window re-read by a deep re-scan
+  deepScanIntervalDays: number; // 0 disables deep re-scans
+}
+
+function defaultSettings(): SyncSettings {
+  return {
+    overlapDays: config.sync.overlapDays,
+    deepScanDays: config.sync.deepScanDays,
+    deepScanIntervalDays: config.sync.deepScanIntervalDays,
+  };
+}
+
+/**
+ * Sync settings of an account, falling back to the configured defaults
+ */
+export async function getSyncSettings(accountId: string): Promise<SyncSettings> {
+  const redis = getRedis();
+
+  try {
+    const data = await redis.get(`${SETTINGS_PREFIX}${accountId}`);
+    if (!data) return defaultSettings();
+
+    return { ...defaultSettings(), ...JSON.parse(data) };
+  } catch (err) {
+    logger.error({ err, accountId }, 'Failed to get sync settings');
+    return defaultSettings();
+  }
+}
+
+/**
+ * Override sync settings of an account; omitted fields keep their value
+ */
+export async function setSyncSettings(
+  accountId: string,
+  settings: Partial<SyncSettings>
+): Promise<SyncSettings> {
+  const redis = getRedis();
+  const key = `${SETTINGS_PREFIX}${accountId}`;
+
+  const data = await redis.get(key);
+  const overrides = { ...(data ? JSON.parse(data) : {}), ...settings };
+  await redis.set(key, JSON.stringify(overrides));
+
+  logger.info({ accountId, settings: overrides }, 'Sync settings updated');
+
+  return { ...defaultSettings(), ...overrides };
+}
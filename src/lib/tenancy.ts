@@ -0,0 +1,81 @@
+import { v4 as uuid } from 'uuid';
+import { getRedis } from './redis';
+import { logger } from '../logger';
+
+const ACCOUNT_OWNER_PREFIX = 'bank:account:owner:';
+const USER_ACCOUNTS_PREFIX = 'bank:user:accounts:';
+
+// User IDs are embedded in requisition references as "<userId>:<reference>"
+export const USER_ID_PATTERN = '^[A-Za-z0-9_-]{1,64}$';
+
+/**
+ * Requisition reference created on behalf of a user
+ */
+export function buildReference(userId: string, reference?: string): string {
+  return `${userId}:${reference || uuid()}`;
+}
+
+/**
+ * Owner encoded in a requisition reference (null for unscoped references)
+ */
+export function referenceOwner(reference: string | undefined): string | null {
+  if (!reference) return null;
+
+  const separator = reference.indexOf(':');
+  if (separator <= 0) return null;
+
+  const userId = reference.slice(0, separator);
+  return new RegExp(USER_ID_PATTERN).test(userId) ? userId : null;
+}
+
+export async function getAccountOwner(accountId: string): Promise<string | null> {
+  const redis = getRedis();
+  return redis.get(`${ACCOUNT_OWNER_PREFIX}${accountId}`);
+}
+
+/**
+ * Assign an account to a user, moving it out of a previous owner's set
+ */
+export async function setAccountOwner(accountId: string, userId: string): Promise<void> {
+  const redis = getRedis();
+  const previous = await getAccountOwner(accountId);
+  if (previous === userId) return;
+
+  if (previous) {
+    await redis.srem(`${USER_ACCOUNTS_PREFIX}${previous}`, accountId);
+  }
+  await redis.set(`${ACCOUNT_OWNER_PREFIX}${accountId}`, userId);
+  await redis.sadd(`${USER_ACCOUNTS_PREFIX}${userId}`, accountId);
+
+  logger.info({ accountId, userId, previous }, 'Account owner set');
+}
+
+export async function listUserAccountIds(userId: string): Promise<string[]> {
+  const redis = getRedis();
+  return redis.smembers(`${USER_ACCOUNTS_PREFIX}${userId}`);
+}
+
+/**
+ * Whether a caller may see an account. An undefined userId is an unscoped
+ * (service-wide) caller.
+ */
+export async function canAccessAccount(
+  userId: string | undefined,
+  accountId: string
+): Promise<boolean> {
+  if (!userId) return true;
+  return (await getAccountOwner(accountId)) === userId;
+}
+
+/**
+ * Restrict a list of account IDs to those a caller may see
+ */
+export async function filterAccessibleAccounts(
+  userId: string | undefined,
+  accountIds: string[]
+): Promise<string[]> {
+  if (!userId) return accountIds;
+
+  const owned = new Set(await listUserAccountIds(userId));
+  return accountIds.filter(accountId => owned.has(accountId));
+}
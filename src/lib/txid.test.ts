@@ -0,0 +1,68 @@
+import { NormalizedTransaction } from './provider';
+import { deriveTxId, fingerprint, fingerprintContent } from './txid';
+
+function tx(overrides: Partial<NormalizedTransaction> = {}): NormalizedTransaction {
+  return {
+    externalRef: '',
+    amount: 12.5,
+    currency: 'EUR',
+    direction: 'out',
+    status: 'booked',
+    bookedAt: '2024-03-01',
+    description: 'Coffee shop',
+    counterparty: { name: 'Cafe', iban: 'ES91 2100 0418 4502 0005 1332' },
+    ...overrides,
+  };
+}
+
+describe('deriveTxId', () => {
+  it('is stable for the same bank reference', () => {
+    const a = deriveTxId('gocardless', 'acc-1', tx({ externalRef: 'ref-1' }), 0);
+    const b = deriveTxId('gocardless', 'acc-1', tx({ externalRef: 'ref-1', description: 'changed' }), 3);
+    expect(a).toBe(b);
+  });
+
+  it('differs per account and provider', () => {
+    const ref = tx({ externalRef: 'ref-1' });
+    expect(deriveTxId('gocardless', 'acc-1', ref, 0)).not.toBe(deriveTxId('gocardless', 'acc-2', ref, 0));
+    expect(deriveTxId('gocardless', 'acc-1', ref, 0)).not.toBe(deriveTxId('other', 'acc-1', ref, 0));
+  });
+
+  it('uses the fingerprint and occurrence index without a bank reference', () => {
+    const first = deriveTxId('gocardless', 'acc-1', tx(), 0);
+    expect(deriveTxId('gocardless', 'acc-1', tx(), 0)).toBe(first);
+    expect(deriveTxId('gocardless', 'acc-1', tx(), 1)).not.toBe(first);
+  });
+
+  it('produces a v5 UUID', () => {
+    expect(deriveTxId('gocardless', 'acc-1', tx(), 0)).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+  });
+});
+
+describe('fingerprintContent', () => {
+  it('ignores formatting differences', () => {
+    const spaced = tx({
+      bookedAt: '2024-03-01T10:00:00Z',
+      description: '  COFFEE   shop ',
+      counterparty: { name: ' CAFE ', iban: 'es9121000418450200051332' },
+    });
+    expect(fingerprintContent(spaced)).toBe(fingerprintContent(tx()));
+  });
+
+  it('tells pending and booked entries apart', () => {
+    expect(fingerprintContent(tx({ status: 'pending' }))).not.toBe(fingerprintContent(tx()));
+  });
+
+  it('leaves the date out of undated entries', () => {
+    const monday = tx({ status: 'pending', undated: true, bookedAt: '2024-03-04' });
+    const tuesday = tx({ status: 'pending', undated: true, bookedAt: '2024-03-05' });
+    expect(fingerprintContent(monday)).toBe(fingerprintContent(tuesday));
+    expect(fingerprint(monday, 0)).toBe(fingerprint(tuesday, 0));
+  });
+
+  it('separates identical entries by occurrence', () => {
+    expect(fingerprint(tx(), 0)).not.toBe(fingerprint(tx(), 1));
+  });
+});
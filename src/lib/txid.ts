@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import { v5 as uuidv5 } from 'uuid';
+import { NormalizedTransaction } from './provider';
+
+// Namespace for v5 transaction IDs. Changing it changes every txId.
+const TX_ID_NAMESPACE = '6f1c1e9a-3b7d-4c2e-9a41-2d8f0b7e4c13';
+
+/**
+ * Content that identifies a transaction when the bank gives no ID.
+ * Entries with identical content are told apart by their occurrence index.
+ * An undated entry leaves the date out, as it would change on every read.
+ */
+export function fingerprintContent(tx: NormalizedTransaction): string {
+  return [
+    tx.status,
+    tx.undated ? '' : tx.bookedAt.split('T')[0],
+    tx.direction,
+    tx.amount.toFixed(2),
+    tx.currency,
+    (tx.counterparty.name || '').trim().toLowerCase(),
+    (tx.counterparty.iban || '').replace(/\s/g, '').toUpperCase(),
+    tx.description.trim().replace(/\s+/g, ' ').toLowerCase(),
+  ].join('|');
+}
+
+export function fingerprint(tx: NormalizedTransaction, occurrence: number): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${fingerprintContent(tx)}|${occurrence}`)
+    .digest('hex');
+}
+
+/**
+ * Stable txId: the same transaction gets the same ID on every replay and
+ * re-sync. Uses the bank reference when there is one, else the fingerprint.
+ */
+export function deriveTxId(
+  provider: string,
+  accountId: string,
+  tx: NormalizedTransaction,
+  occurrence: number
+): string {
+  const ref = tx.externalRef
+    ? `ref:${tx.externalRef}`
+    : `fp:${fingerprint(tx, occurrence)}`;
+
+  return uuidv5(`${provider}:${accountId}:${ref}`, TX_ID_NAMESPACE);
+}
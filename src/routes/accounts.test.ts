@@ -0,0 +1,155 @@
+import Fastify, { FastifyInstance } from 'fastify';
+
+const owners = new Map<string, string>();
+const upsertAccount = jest.fn();
+const internalIds: Record<string, string> = { 'acc-new': 'acc-old' };
+const providerIds: Record<string, string[]> = { 'acc-old': ['acc-old', 'acc-new'] };
+const cache = new Map<string, string>();
+const getBalances = jest.fn();
+const getLatestBalances = jest.fn();
+const scheduleBalanceSync = jest.fn();
+let databaseEnabled = true;
+let accessScope = ['balances', 'transactions'];
+
+jest.mock('../lib/provider', () => ({
+  ...jest.requireActual('../lib/provider'),
+  getAccountProvider: async () => ({
+    name: 'gocardless',
+    getAccount: async (id: string) => ({ id, iban: 'ES9121000418450200051332', status: 'READY' }),
+    getBalances: (...args: unknown[]) => getBalances(...args),
+  }),
+}));
+jest.mock('../lib/accountIdentity', () => ({
+  resolveAccountId: async (id: string) => internalIds[id] || id,
+  listProviderAccountIds: async (id: string) => providerIds[id] || [id],
+}));
+jest.mock('../lib/tenancy', () => ({
+  USER_ID_PATTERN: '^[A-Za-z0-9_-]{1,64}$',
+  getAccountOwner: async (id: string) => owners.get(id) ?? null,
+  setAccountOwner: async (id: string, userId: string) => {
+    owners.set(id, userId);
+  },
+}));
+jest.mock('../lib/repository', () => ({
+  upsertAccount: (...args: unknown[]) => upsertAccount(...args),
+  getLatestBalances: (...args: unknown[]) => getLatestBalances(...args),
+}));
+jest.mock('../lib/db', () => ({ isDatabaseEnabled: () => databaseEnabled }));
+jest.mock('../lib/redis', () => ({ getRedis: () => ({ get: async (key: string) => cache.get(key) ?? null }) }));
+jest.mock('../lib/cursor', () => ({ getCursor: async () => null }));
+jest.mock('../lib/syncSettings', () => ({}));
+jest.mock('../lib/accountDetails', () => ({ getStoredAccountDetails: async () => null }));
+jest.mock('../lib/requisition', () => ({
+  getRequisitionManager: () => ({ getAccountAccessScope: async () => accessScope }),
+}));
+jest.mock('../lib/scheduler', () => ({
+  getScheduler: () => ({ scheduleBalanceSync: (...args: unknown[]) => scheduleBalanceSync(...args) }),
+}));
+jest.mock('../logger', () => ({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import accounts from './accounts';
+
+describe('account routes', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify();
+    await app.register(accounts, { prefix: '/v1' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    owners.clear();
+    upsertAccount.mockReset();
+  });
+
+  describe('GET /accounts/:accountId', () => {
+    const closingBooked = {
+      balanceAmount: { amount: '120.50', currency: 'EUR' },
+      balanceType: 'closingBooked',
+      referenceDate: '2024-03-01',
+    };
+
+    beforeEach(() => {
+      cache.clear();
+      getBalances.mockReset();
+      getLatestBalances.mockReset().mockResolvedValue([]);
+      scheduleBalanceSync.mockReset();
+      databaseEnabled = true;
+      accessScope = ['balances', 'transactions'];
+    });
+
+    it('serves cached balances without a bank request', async () => {
+      cache.set('balance:acc-1', JSON.stringify({ balance: closingBooked, balances: [closingBooked], timestamp: Date.now() }));
+
+      const response = await app.inject({ method: 'GET', url: '/v1/accounts/acc-1' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({
+        balance: 120.5,
+        currency: 'EUR',
+        balances: [{ type: 'closingBooked', amount: 120.5, currency: 'EUR', referenceDate: '2024-03-01' }],
+      });
+      expect(getBalances).not.toHaveBeenCalled();
+      expect(scheduleBalanceSync).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the newest stored day and queues a refresh', async () => {
+      getLatestBalances.mockResolvedValue([
+        { day: '2024-03-02', balanceType: 'interimAvailable', amount: 99, currency: 'EUR' },
+        { day: '2024-02-01', balanceType: 'closingBooked', amount: 80, currency: 'EUR' },
+      ]);
+
+      const response = await app.inject({ method: 'GET', url: '/v1/accounts/acc-new' });
+
+      expect(getLatestBalances).toHaveBeenCalledWith('acc-old');
+      expect(response.json()).toMatchObject({
+        balance: 99,
+        balances: [{ type: 'interimAvailable', amount: 99, referenceDate: '2024-03-02' }],
+      });
+      expect(response.json().balances).toHaveLength(1);
+      expect(getBalances).not.toHaveBeenCalled();
+      expect(scheduleBalanceSync).toHaveBeenCalledWith('acc-new');
+    });
+
+    it('queues a refresh only within the consent scope', async () => {
+      databaseEnabled = false;
+
+      const response = await app.inject({ method: 'GET', url: '/v1/accounts/acc-1' });
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ balances: [] });
+      expect(response.json().balance).toBeUndefined();
+      expect(scheduleBalanceSync).toHaveBeenCalledTimes(1);
+
+      accessScope = ['transactions'];
+      await app.inject({ method: 'GET', url: '/v1/accounts/acc-1' });
+      expect(scheduleBalanceSync).toHaveBeenCalledTimes(1);
+      expect(getLatestBalances).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /accounts/:accountId/owner', () => {
+    it('assigns every ID a re-linked account is known by', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/v1/accounts/acc-new/owner',
+        payload: { userId: 'user-1' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(Object.fromEntries(owners)).toEqual({ 'acc-old': 'user-1', 'acc-new': 'user-1' });
+      expect(upsertAccount).toHaveBeenCalledWith({ accountId: 'acc-old', provider: 'gocardless', userId: 'user-1' });
+    });
+
+    it('assigns an account that was never re-linked under its own ID', async () => {
+      await app.inject({ method: 'PUT', url: '/v1/accounts/acc-1/owner', payload: { userId: 'user-1' } });
+
+      expect(Object.fromEntries(owners)).toEqual({ 'acc-1': 'user-1' });
+      expect(upsertAccount).toHaveBeenCalledWith(expect.objectContaining({ accountId: 'acc-1' }));
+    });
+  });
+});
@@ -1,10 +1,104 @@
 import { FastifyPluginAsync } from 'fastify';
-import { getGCClient } from '../lib/gcClient';
+import { ProviderBalance, getAccountProvider, getProvider, listProviders, primaryBalance, setAccountProvider } from '../lib/provider';
 import { getCursor } from '../lib/cursor';
+import { listProviderAccountIds, resolveAccountId } from '../lib/accountIdentity';
+import { SyncSettings, getSyncSettings, setSyncSettings } from '../lib/syncSettings';
+import { USER_ID_PATTERN, getAccountOwner, setAccountOwner } from '../lib/tenancy';
+import { isDatabaseEnabled } from '../lib/db';
 import { getRedis } from '../lib/redis';
+import { getLatestBalances, upsertAccount } from '../lib/repository';
+import { AccountDetails, getStoredAccountDetails } from '../lib/accountDetails';
+import { getRequisitionManager } from '../lib/requisition';
+import { getScheduler } from '../lib/scheduler';
 import { logger } from '../logger';
 import { AccountInfo } from '../types';
 
+const accountInfoProperties = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  provider: { type: 'string' },
+  iban: { type: 'string' },
+  currency: { type: 'string' },
+  balance: { type: 'number' },
+  lastSyncAt: { type: 'string' },
+  status: { type: 'string' },
+  userId: { type: 'string' },
+  internalId: { type: 'string' },
+  ownerName: { type: 'string' },
+  product: { type: 'string' },
+  cashAccountType: { type: 'string' },
+  bban: { type: 'string' },
+  institution: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      logoUrl: { type: 'string' },
+    },
+  },
+};
+
+/**
+ * AccountInfo fields taken from the stored details and the institution
+ * (cached, so no per-account bank requests)
+ */
+async function describeAccount(
+  details: AccountDetails | null,
+  institutionId?: string
+): Promise<Pick<AccountInfo, 'ownerName' | 'product' | 'cashAccountType' | 'bban' | 'institution'> & { name?: string }> {
+  let institution: AccountInfo['institution'];
+  if (institutionId) {
+    const known = await getRequisitionManager().getInstitution(institutionId).catch(err => {
+      logger.warn({ err, institutionId }, 'Institution unavailable');
+      return null;
+    });
+    institution = {
+      id: institutionId,
+      name: known?.name,
+      logoUrl: `/v1/institutions/${encodeURIComponent(institutionId)}/logo`,
+    };
+  }
+
+  return {
+    name: details?.name || details?.displayName || details?.product,
+    ownerName: details?.ownerName,
+    product: details?.product,
+    cashAccountType: details?.cashAccountType,
+    bban: details?.bban,
+    institution,
+  };
+}
+
+/**
+ * Balances of an account without a bank request: the cached fetch, else
+ * the newest day in the durable store (stale)
+ */
+async function knownBalances(
+  accountId: string,
+  internalId: string
+): Promise<{ balances: ProviderBalance[]; fresh: boolean }> {
+  const cached = await getRedis().get(`balance:${accountId}`);
+  if (cached) {
+    const data = JSON.parse(cached);
+    const balances: ProviderBalance[] = data.balances || (data.balance ? [data.balance] : []);
+    if (balances.length) return { balances, fresh: true };
+  }
+
+  if (!isDatabaseEnabled()) return { balances: [], fresh: false };
+
+  const points = await getLatestBalances(internalId);
+  const latestDay = points.map(point => point.day).sort().pop();
+  const balances = points
+    .filter(point => point.day === latestDay)
+    .map(point => ({
+      balanceAmount: { amount: String(point.amount), currency: point.currency },
+      balanceType: point.balanceType,
+      referenceDate: point.day,
+    }));
+
+  return { balances, fresh: false };
+}
+
 const plugin: FastifyPluginAsync = async (fastify) => {
   fastify.get('/accounts', {
     schema: {
@@ -16,30 +110,33 @@ const plugin: FastifyPluginAsync = async (fastify) => {
               type: 'array',
               items: {
                 type: 'object',
-                properties: {
-                  id: { type: 'string' },
-                  name: { type: 'string' },
-                  provider: { type: 'string' },
-                  iban: { type: 'string' },
-                  currency: { type: 'string' },
-                  balance: { type: 'number' },
-                  lastSyncAt: { type: 'string' },
-                  status: { type: 'string' },
-                },
+                properties: accountInfoProperties,
               },
             },
           },
         },
       },
     },
-  }, async (_request, reply) => {
+  }, async (request, reply) => {
+    const userId = request.apiKey?.userId;
+    
     try {
-      const gcClient = getGCClient();
-      const gcAccounts = await gcClient.listAccounts();
+      const providerAccounts = [];
+      for (const provider of listProviders()) {
+        const providerAccountList = await provider.listAccounts();
+        for (const account of providerAccountList) {
+          const owner = await getAccountOwner(account.id);
+          // User-scoped keys only see their own accounts
+          if (userId && owner !== userId) continue;
+          providerAccounts.push({ provider, account, owner });
+        }
+      }
       
       const accounts: AccountInfo[] = await Promise.all(
-        gcAccounts.map(async (acc) => {
-          const cursor = await getCursor(acc.id);
+        providerAccounts.map(async ({ provider, account: acc, owner }) => {
+          // Identities are registered when accounts are linked or synced
+          const internalId = await resolveAccountId(acc.id);
+          const cursor = await getCursor(internalId);
           // Get cached balance (don't make API call)
           const redis = await getRedis();
           const cachedBalance = await redis.get(`balance:${acc.id}`);
@@ -49,15 +146,23 @@ const plugin: FastifyPluginAsync = async (fastify) => {
             balance = parsed.balance;
           }
           
+          // Details are fetched by the scheduler after linking
+          const details = await getStoredAccountDetails(acc.id);
+          const described = await describeAccount(details, acc.institutionId);
+          
           return {
+            ...described,
             id: acc.id,
-            name: acc.iban, // Use IBAN as name instead of fetching details
-            provider: 'gocardless',
+            name: described.name || acc.iban,
+            provider: provider.name,
             iban: acc.iban,
-            currency: balance?.balanceAmount?.currency || 'EUR',
+            currency: details?.currency || balance?.balanceAmount?.currency || 'EUR',
             balance: balance ? parseFloat(balance.balanceAmount.amount) : undefined,
             lastSyncAt: cursor?.updatedAt,
-            status: acc.status === 'READY' ? 'active' : 'inactive' as const,
+            status: acc.status,
+            userId: owner || undefined,
+            internalId,
+            ownerName: described.ownerName || acc.ownerName,
           };
         })
       );
@@ -86,8 +191,8 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     const { accountId } = request.params as { accountId: string };
     
     try {
-      const gcClient = getGCClient();
-      const account = await gcClient.getAccount(accountId);
+      const provider = await getAccountProvider(accountId);
+      const account = await provider.getAccount(accountId);
       
       if (!account) {
         return reply.code(404).send({
@@ -96,19 +201,44 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         });
       }
 
-      const cursor = await getCursor(accountId);
-      const balance = await gcClient.getBalance(accountId);
-      const details = await gcClient.getAccountDetails(accountId);
+      const internalId = await resolveAccountId(accountId);
+      const cursor = await getCursor(internalId);
+      const owner = await getAccountOwner(accountId);
+      const scope = await getRequisitionManager().getAccountAccessScope(accountId);
+      
+      // Known balances; a stale one is refreshed within the daily quota
+      const { balances, fresh } = await knownBalances(accountId, internalId);
+      const balance = primaryBalance(balances);
+      if (!fresh && scope.includes('balances')) {
+        await getScheduler().scheduleBalanceSync(accountId);
+      }
+      
+      // Stored details; a missing fetch is queued within the daily quota
+      const details = await getStoredAccountDetails(accountId);
+      if (!details && scope.includes('details')) {
+        await getScheduler().scheduleDetailsSync(accountId);
+      }
+      const described = await describeAccount(details, account.institutionId);
       
       const accountInfo: AccountInfo = {
+        ...described,
         id: account.id,
-        name: details?.name || account.iban,
-        provider: 'gocardless',
+        name: described.name || account.iban,
+        provider: provider.name,
         iban: account.iban,
         currency: details?.currency || balance?.balanceAmount?.currency || 'EUR',
         balance: balance ? parseFloat(balance.balanceAmount.amount) : undefined,
+        balances: balances.map(b => ({
+          type: b.balanceType,
+          amount: parseFloat(b.balanceAmount.amount),
+          currency: b.balanceAmount.currency,
+          referenceDate: b.referenceDate,
+        })),
         lastSyncAt: cursor?.updatedAt,
-        status: account.status === 'READY' ? 'active' : 'inactive',
+        status: account.status,
+        userId: owner || undefined,
+        internalId,
+        ownerName: described.ownerName || account.ownerName,
       };
 
       return accountInfo;
@@ -120,6 +250,195 @@ const plugin: FastifyPluginAsync = async (fastify) => {
       });
     }
   });
+
+  // Select the provider used to sync an account
+  fastify.put('/accounts/:accountId/provider', {
+    config: { scope: 'admin' },
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          accountId: { type: 'string' },
+        },
+        required: ['accountId'],
+      },
+      body: {
+        type: 'object',
+        required: ['provider'],
+        properties: {
+          provider: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            accountId: { type: 'string' },
+            provider: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { accountId } = request.params as { accountId: string };
+    const { provider } = request.body as { provider: string };
+    
+    try {
+      getProvider(provider);
+    } catch {
+      return reply.code(400).send({
+        error: 'UNKNOWN_PROVIDER',
+        message: `Unknown provider: ${provider}`,
+      });
+    }
+    
+    try {
+      await setAccountProvider(accountId, provider);
+      return { accountId, provider };
+    } catch (err) {
+      logger.error({ err, accountId, provider }, 'Failed to set account provider');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to set account provider',
+      });
+    }
+  });
+
+  // Assign an account to a user (e.g. accounts linked before multi-tenancy)
+  fastify.put('/accounts/:accountId/owner', {
+    config: { scope: 'admin' },
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          accountId: { type: 'string' },
+        },
+        required: ['accountId'],
+      },
+      body: {
+        type: 'object',
+        required: ['userId'],
+        properties: {
+          userId: { type: 'string', pattern: USER_ID_PATTERN },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            accountId: { type: 'string' },
+            userId: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { accountId } = request.params as { accountId: string };
+    const { userId } = request.body as { userId: string };
+    
+    // Only service-wide admins may move accounts between users
+    if (request.apiKey?.userId) {
+      return reply.code(403).send({
+        error: 'FORBIDDEN',
+        message: 'User-scoped keys cannot reassign accounts',
+      });
+    }
+    
+    try {
+      // Every ID the account was linked under, so access checks agree
+      // whichever one a caller uses
+      const internalId = await resolveAccountId(accountId);
+      const ids = new Set([accountId, internalId, ...(await listProviderAccountIds(internalId))]);
+      for (const id of ids) {
+        await setAccountOwner(id, userId);
+      }
+      await upsertAccount({
+        accountId: internalId,
+        provider: (await getAccountProvider(accountId)).name,
+        userId,
+      });
+      return { accountId, userId };
+    } catch (err) {
+      logger.error({ err, accountId, userId }, 'Failed to set account owner');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to set account owner',
+      });
+    }
+  });
+
+  const syncSettingsProperties = {
+    overlapDays: { type: 'integer', minimum: 0, maximum: 90 },
+    deepScanDays: { type: 'integer', minimum: 1, maximum: 730 },
+    deepScanIntervalDays: { type: 'integer', minimum: 0 },
+  };
+
+  // Overlap window and deep re-scan cadence used by incremental syncs
+  fastify.get('/accounts/:accountId/sync-settings', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          accountId: { type: 'string' },
+        },
+        required: ['accountId'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: syncSettingsProperties,
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { accountId } = request.params as { accountId: string };
+    
+    try {
+      return await getSyncSettings(await resolveAccountId(accountId));
+    } catch (err) {
+      logger.error({ err, accountId }, 'Failed to get sync settings');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to get sync settings',
+      });
+    }
+  });
+
+  fastify.put('/accounts/:accountId/sync-settings', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          accountId: { type: 'string' },
+        },
+        required: ['accountId'],
+      },
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: syncSettingsProperties,
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: syncSettingsProperties,
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { accountId } = request.params as { accountId: string };
+    const settings = request.body as Partial<SyncSettings>;
+    
+    try {
+      return await setSyncSettings(await resolveAccountId(accountId), settings);
+    } catch (err) {
+      logger.error({ err, accountId }, 'Failed to set sync settings');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to set sync settings',
+      });
+    }
+  });
 };
 
-export default plugin;
\ No newline at end of file
+export default plugin;
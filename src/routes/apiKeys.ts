@@ -0,0 +1,168 @@
+import { FastifyPluginAsync } from 'fastify';
+import {
+  API_SCOPES,
+  ApiKeyRecord,
+  ApiScope,
+  createApiKey,
+  getApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from '../lib/apiKeys';
+import { USER_ID_PATTERN } from '../lib/tenancy';
+import { logger } from '../logger';
+
+const keyProperties = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  scopes: { type: 'array', items: { type: 'string' } },
+  userId: { type: 'string' },
+  createdAt: { type: 'string' },
+  revokedAt: { type: 'string' },
+};
+
+// Never expose the stored hash
+function toResponse(record: ApiKeyRecord) {
+  const { hash: _hash, ...rest } = record;
+  return rest;
+}
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  fastify.get('/api-keys', {
+    config: { scope: 'admin' },
+    schema: {
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            keys: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: keyProperties,
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const userId = request.apiKey?.userId;
+    
+    try {
+      const keys = await listApiKeys();
+      return {
+        keys: keys
+          .filter(key => !userId || key.userId === userId)
+          .map(toResponse),
+      };
+    } catch (err) {
+      logger.error({ err }, 'Failed to list API keys');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to list API keys',
+      });
+    }
+  });
+
+  // Create a key; the plain key is only returned in this response
+  fastify.post('/api-keys', {
+    config: { scope: 'admin' },
+    schema: {
+      body: {
+        type: 'object',
+        required: ['name', 'scopes'],
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 100 },
+          scopes: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string', enum: API_SCOPES },
+          },
+          userId: { type: 'string', pattern: USER_ID_PATTERN },
+        },
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            ...keyProperties,
+            key: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { name, scopes, userId } = request.body as { name: string; scopes: ApiScope[]; userId?: string };
+    const callerUserId = request.apiKey?.userId;
+
+    // User-scoped admins can only issue keys for their own user
+    if (callerUserId && userId && userId !== callerUserId) {
+      return reply.code(403).send({
+        error: 'FORBIDDEN',
+        message: 'Cannot create keys for another user',
+      });
+    }
+
+    try {
+      const { key, record } = await createApiKey(name, scopes, callerUserId || userId);
+      logger.info({ keyId: record.id, createdBy: request.apiKey?.id }, 'API key issued');
+      return reply.code(201).send({ ...toResponse(record), key });
+    } catch (err) {
+      logger.error({ err, name }, 'Failed to create API key');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to create API key',
+      });
+    }
+  });
+
+  fastify.delete('/api-keys/:id', {
+    config: { scope: 'admin' },
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: keyProperties,
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const userId = request.apiKey?.userId;
+
+    try {
+      const existing = await getApiKey(id);
+      if (!existing || (userId && existing.userId !== userId)) {
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: 'API key not found',
+        });
+      }
+
+      const record = await revokeApiKey(id);
+      if (!record) {
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: 'API key not found',
+        });
+      }
+
+      return toResponse(record);
+    } catch (err) {
+      logger.error({ err, id }, 'Failed to revoke API key');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to revoke API key',
+      });
+    }
+  });
+};
+
+export default plugin;
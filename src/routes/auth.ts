@@ -5,6 +5,7 @@ import { logger } from '../logger';
 const plugin: FastifyPluginAsync = async (fastify) => {
   // Generate or refresh token
   fastify.post('/auth/token', {
+    config: { scope: 'admin', serviceWide: true },
     schema: {
       response: {
         200: {
@@ -69,6 +70,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
 
   // Clear tokens (logout)
   fastify.post('/auth/logout', {
+    config: { scope: 'admin', serviceWide: true },
     schema: {
       response: {
         200: {
@@ -1,7 +1,10 @@
 import { FastifyPluginAsync } from 'fastify';
-import { getGCClient } from '../lib/gcClient';
-import { getRequisitionManager } from '../lib/requisition';
+import { getAccountProvider, listLinkedAccountIds, primaryBalance } from '../lib/provider';
+import { resolveAccountId } from '../lib/accountIdentity';
+import { isDatabaseEnabled } from '../lib/db';
 import { getRedis } from '../lib/redis';
+import { queryBalanceHistory, saveBalances } from '../lib/repository';
+import { filterAccessibleAccounts } from '../lib/tenancy';
 import { logger } from '../logger';
 import { sendBalanceSyncNotification } from '../lib/notifications';
 
@@ -10,6 +13,21 @@ const RATE_LIMIT_KEY = 'gc:ratelimit:';
 const DAILY_LIMIT_KEY = 'gc:daily:';
 const DAILY_LIMIT = 4; // GoCardless actual limit for balance endpoint
 
+const balanceSchema = {
+  type: 'object',
+  properties: {
+    balanceAmount: {
+      type: 'object',
+      properties: {
+        amount: { type: 'string' },
+        currency: { type: 'string' },
+      },
+    },
+    balanceType: { type: 'string' },
+    referenceDate: { type: 'string' },
+  },
+};
+
 const plugin: FastifyPluginAsync = async (fastify) => {
   // Get balance for a specific account
   fastify.get<{
@@ -27,20 +45,8 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         200: {
           type: 'object',
           properties: {
-            balance: {
-              type: 'object',
-              properties: {
-                balanceAmount: {
-                  type: 'object',
-                  properties: {
-                    amount: { type: 'string' },
-                    currency: { type: 'string' },
-                  },
-                },
-                balanceType: { type: 'string' },
-                referenceDate: { type: 'string' },
-              },
-            },
+            balance: balanceSchema,
+            balances: { type: 'array', items: balanceSchema },
             cached: { type: 'boolean' },
             nextSyncAvailable: { type: 'string' },
           },
@@ -113,25 +119,29 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         if (cacheAge < BALANCE_CACHE_TTL * 1000) {
           return reply.send({
             balance: cacheData.balance,
+            balances: cacheData.balances,
             cached: true,
             nextSyncAvailable: new Date(cacheData.timestamp + BALANCE_CACHE_TTL * 1000).toISOString(),
           });
         }
       }
 
-      // Fetch fresh balance from GoCardless
-      const gcClient = getGCClient();
+      // Fetch fresh balance from the account's provider
+      const provider = await getAccountProvider(accountId);
       
       try {
-        const balanceData = await gcClient.getBalance(accountId);
+        const balances = await provider.getBalances(accountId);
+        const balanceData = primaryBalance(balances);
         
         // Cache the balance
         if (balanceData) {
+          await saveBalances(await resolveAccountId(accountId), balances);
           await redis.setex(
             cacheKey,
             BALANCE_CACHE_TTL,
             JSON.stringify({
               balance: balanceData,
+              balances,
               timestamp: Date.now(),
             })
           );
@@ -152,6 +162,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         
         return reply.send({
           balance: balanceData,
+          balances,
           cached: false,
         });
         
@@ -184,6 +195,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
             const cacheData = JSON.parse(cached);
             return reply.send({
               balance: cacheData.balance,
+              balances: cacheData.balances,
               cached: true,
               nextSyncAvailable: new Date(retryTime).toISOString(),
             });
@@ -208,6 +220,84 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Daily balance series from the durable store
+  fastify.get('/accounts/:accountId/balances/history', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          accountId: { type: 'string' },
+        },
+        required: ['accountId'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+          type: { type: 'string', minLength: 1 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            accountId: { type: 'string' },
+            balances: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  date: { type: 'string' },
+                  type: { type: 'string' },
+                  amount: { type: 'number' },
+                  currency: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { accountId } = request.params as { accountId: string };
+    const { from, to, type } = request.query as { from?: string; to?: string; type?: string };
+    
+    if (!isDatabaseEnabled()) {
+      return reply.code(503).send({
+        error: 'STORE_DISABLED',
+        message: 'Balance history needs the durable store (DB_URL)',
+      });
+    }
+    
+    try {
+      // History is stored under the internal ID, whichever provider ID was asked for
+      const internalId = await resolveAccountId(accountId);
+      const points = await queryBalanceHistory({
+        accountId: internalId,
+        fromDate: from,
+        toDate: to,
+        balanceType: type,
+      });
+      
+      return {
+        accountId: internalId,
+        balances: points.map(point => ({
+          date: point.day,
+          type: point.balanceType,
+          amount: point.amount,
+          currency: point.currency,
+        })),
+      };
+    } catch (err) {
+      logger.error({ err, accountId }, 'Failed to get balance history');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to get balance history',
+      });
+    }
+  });
+
   // Sync all account balances with smart scheduling
   fastify.post('/sync/balances', {
     schema: {
@@ -236,25 +326,15 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
-  }, async (_request, reply) => {
+  }, async (request, reply) => {
     const redis = await getRedis();
-    const gcClient = getGCClient();
     
     try {
-      // Get all requisitions to find accounts
-      const reqManager = getRequisitionManager();
-      const reqData = await reqManager.listRequisitions();
-      const requisitions = reqData.results;
-      const accounts: string[] = [];
-      
-      for (const req of requisitions) {
-        if (req.status === 'LN' && req.accounts) {
-          accounts.push(...req.accounts);
-        }
-      }
-      
-      // Remove duplicates
-      const uniqueAccounts = [...new Set(accounts)];
+      // Get all linked accounts across providers (the caller's own when user-scoped)
+      const uniqueAccounts = await filterAccessibleAccounts(
+        request.apiKey?.userId,
+        await listLinkedAccountIds()
+      );
       
       const results = [];
       let synced = 0;
@@ -307,15 +387,19 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         
         // Try to sync
         try {
-          const balanceData = await gcClient.getBalance(accountId);
+          const provider = await getAccountProvider(accountId);
+          const balances = await provider.getBalances(accountId);
+          const balanceData = primaryBalance(balances);
           
           // Cache the result
           if (balanceData) {
+            await saveBalances(await resolveAccountId(accountId), balances);
             await redis.setex(
               `balance:${accountId}`,
               BALANCE_CACHE_TTL,
               JSON.stringify({
                 balance: balanceData,
+                balances,
                 timestamp: Date.now(),
               })
             );
@@ -397,22 +481,14 @@ const plugin: FastifyPluginAsync = async (fastify) => {
   });
 
   // Get rate limit status for all accounts
-  fastify.get('/sync/limits', async (_request, reply) => {
+  fastify.get('/sync/limits', async (request, reply) => {
     const redis = await getRedis();
     
     try {
-      const reqManager = getRequisitionManager();
-      const reqData = await reqManager.listRequisitions();
-      const requisitions = reqData.results;
-      const accounts: string[] = [];
-      
-      for (const req of requisitions) {
-        if (req.status === 'LN' && req.accounts) {
-          accounts.push(...req.accounts);
-        }
-      }
-      
-      const uniqueAccounts = [...new Set(accounts)];
+      const uniqueAccounts = await filterAccessibleAccounts(
+        request.apiKey?.userId,
+        await listLinkedAccountIds()
+      );
       const today = new Date().toISOString().split('T')[0];
       
       const limits = await Promise.all(
@@ -455,7 +531,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
   });
 
   // NOTIFICATION TEST
-  fastify.post('/test-notification', async () => {
+  fastify.post('/test-notification', { config: { scope: 'admin', serviceWide: true } }, async () => {
     const { sendBalanceSyncNotification } = await import('../lib/notifications');
     try {
       await sendBalanceSyncNotification({
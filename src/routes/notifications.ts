@@ -5,6 +5,7 @@ import { logger } from '../logger';
 const plugin: FastifyPluginAsync = async (fastify) => {
   // Test notification endpoint
   fastify.post('/notifications/test', {
+    config: { scope: 'admin', serviceWide: true },
     schema: {
       body: {
         type: 'object',
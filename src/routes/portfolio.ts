@@ -0,0 +1,143 @@
+import { FastifyPluginAsync } from 'fastify';
+import { listLinkedAccountIds } from '../lib/provider';
+import { isDatabaseEnabled } from '../lib/db';
+import { buildPortfolio, buildPortfolioHistory } from '../lib/portfolio';
+import { filterAccessibleAccounts } from '../lib/tenancy';
+import { logger } from '../logger';
+import { config } from '../config';
+
+const CURRENCY_PATTERN = '^[A-Z]{3}$';
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // Current balances of every account, converted into one currency
+  fastify.get('/portfolio', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          base: { type: 'string', pattern: CURRENCY_PATTERN },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            baseCurrency: { type: 'string' },
+            total: { type: 'number' },
+            accounts: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  accountId: { type: 'string' },
+                  internalId: { type: 'string' },
+                  currency: { type: 'string' },
+                  balance: { type: 'number' },
+                  balanceType: { type: 'string' },
+                  asOf: { type: 'string' },
+                  convertedBalance: { type: 'number' },
+                  rate: { type: 'number' },
+                  rateDate: { type: 'string' },
+                },
+              },
+            },
+            byCurrency: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  currency: { type: 'string' },
+                  balance: { type: 'number' },
+                  convertedBalance: { type: 'number' },
+                },
+              },
+            },
+            missingRates: { type: 'array', items: { type: 'string' } },
+            unavailable: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { base } = request.query as { base?: string };
+
+    try {
+      // The caller's own accounts when user-scoped
+      const accountIds = await filterAccessibleAccounts(
+        request.apiKey?.userId,
+        await listLinkedAccountIds()
+      );
+
+      return await buildPortfolio(accountIds, base || config.fx.baseCurrency);
+    } catch (err) {
+      logger.error({ err, base }, 'Failed to build portfolio');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to build portfolio',
+      });
+    }
+  });
+
+  // Daily portfolio total from the durable store
+  fastify.get('/portfolio/history', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          base: { type: 'string', pattern: CURRENCY_PATTERN },
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            baseCurrency: { type: 'string' },
+            points: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  date: { type: 'string' },
+                  total: { type: 'number' },
+                  complete: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { base, from, to } = request.query as { base?: string; from?: string; to?: string };
+    const baseCurrency = base || config.fx.baseCurrency;
+
+    if (!isDatabaseEnabled()) {
+      return reply.code(503).send({
+        error: 'STORE_DISABLED',
+        message: 'Portfolio history needs the durable store (DB_URL)',
+      });
+    }
+
+    try {
+      const accountIds = await filterAccessibleAccounts(
+        request.apiKey?.userId,
+        await listLinkedAccountIds()
+      );
+
+      return {
+        baseCurrency,
+        points: await buildPortfolioHistory(accountIds, baseCurrency, from, to),
+      };
+    } catch (err) {
+      logger.error({ err, base }, 'Failed to build portfolio history');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to build portfolio history',
+      });
+    }
+  });
+};
+
+export default plugin;
@@ -0,0 +1,76 @@
+import Fastify, { FastifyInstance } from 'fastify';
+
+const getRequisitionByReference = jest.fn();
+
+jest.mock('../lib/requisition', () => ({
+  ACCESS_SCOPES: ['balances', 'details', 'transactions'],
+  getRequisitionManager: () => ({ getRequisitionByReference }),
+}));
+jest.mock('../lib/provider', () => ({}));
+jest.mock('../lib/consent', () => ({}));
+jest.mock('../lib/requisitionLifecycle', () => ({ observeRequisition: async () => undefined }));
+jest.mock('../workers/backfillRunner', () => ({}));
+jest.mock('../lib/tenancy', () => ({ USER_ID_PATTERN: '^[A-Za-z0-9_-]{1,64}$' }));
+jest.mock('../logger', () => ({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { config } from '../config';
+import { createCallbackState } from '../lib/callbackState';
+import requisitions from './requisitions';
+
+describe('GET /requisitions/callback', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    config.callback.stateSecret = 'state-secret';
+    app = Fastify();
+    await app.register(requisitions, { prefix: '/v1' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    getRequisitionByReference.mockReset().mockResolvedValue(null);
+  });
+
+  function callback(query: Record<string, string>) {
+    return app.inject({ method: 'GET', url: `/v1/requisitions/callback?${new URLSearchParams(query)}` });
+  }
+
+  it('escapes the bank error shown on the outcome page', async () => {
+    const ref = 'user-1:ref';
+    const response = await callback({
+      ref,
+      state: createCallbackState(ref),
+      error: '<script>alert("x")</script>',
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('text/html');
+    expect(response.body).not.toContain('<script>');
+    expect(response.body).toContain('Error: &lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;.');
+  });
+
+  it('rejects a state issued for another reference without looking the requisition up', async () => {
+    const response = await callback({ ref: 'user-2:ref', state: createCallbackState('user-1:ref') });
+
+    expect(response.statusCode).toBe(400);
+    expect(getRequisitionByReference).not.toHaveBeenCalled();
+  });
+
+  it('redirects to the signed return URL with the outcome', async () => {
+    const ref = 'user-1:ref';
+    const response = await callback({ ref, state: createCallbackState(ref, 'https://app.example.com/linked') });
+
+    expect(response.statusCode).toBe(302);
+    const location = new URL(response.headers.location as string);
+    expect(location.origin).toBe('https://app.example.com');
+    expect(Object.fromEntries(location.searchParams)).toEqual({
+      status: 'failed',
+      reference: ref,
+      error: 'REQUISITION_NOT_FOUND',
+    });
+  });
+});
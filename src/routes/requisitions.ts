@@ -1,55 +1,145 @@
-import { FastifyPluginAsync } from 'fastify';
-import { getRequisitionManager } from '../lib/requisition';
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { v4 as uuid } from 'uuid';
+import { ACCESS_SCOPES, Institution, getRequisitionManager } from '../lib/requisition';
+import { getProvider } from '../lib/provider';
+import { getConsentExpiry } from '../lib/consent';
+import { getRequisitionTransitions, observeRequisition } from '../lib/requisitionLifecycle';
+import {
+  createCallbackState,
+  isAllowedReturnUrl,
+  verifyCallbackState,
+  withCallbackState,
+} from '../lib/callbackState';
+import { queueInitialSync } from '../workers/backfillRunner';
+import { USER_ID_PATTERN, buildReference, referenceOwner } from '../lib/tenancy';
 import { logger } from '../logger';
 import { config } from '../config';
 
+interface CallbackOutcome {
+  reference: string;
+  status: 'linked' | 'pending' | 'failed';
+  requisitionId?: string;
+  error?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  }[char]!));
+}
+
+// Everything interpolated is escaped: query values end up in these pages
+function sendCallbackPage(reply: FastifyReply, code: number, title: string, message: string) {
+  return reply.code(code).type('text/html').send(`
+    <html>
+      <body>
+        <h1>${escapeHtml(title)}</h1>
+        <p>${escapeHtml(message)}</p>
+      </body>
+    </html>
+  `);
+}
+
+const institutionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    bic: { type: 'string' },
+    countries: { type: 'array', items: { type: 'string' } },
+    logo: { type: 'string' },
+    logoUrl: { type: 'string' },
+    transactionTotalDays: { type: 'number' },
+    maxAccessValidForDays: { type: 'number' },
+    features: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+function toInstitutionResponse(institution: Institution) {
+  return {
+    id: institution.id,
+    name: institution.name,
+    bic: institution.bic,
+    countries: institution.countries,
+    logo: institution.logo,
+    logoUrl: `/v1/institutions/${encodeURIComponent(institution.id)}/logo`, // Cached copy
+    transactionTotalDays: Number(institution.transaction_total_days) || undefined,
+    maxAccessValidForDays: Number(institution.max_access_valid_for_days) || undefined,
+    features: institution.supported_features || [],
+  };
+}
+
+const createdRequisitionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    link: { type: 'string' },
+    status: { type: 'string' },
+    institutionId: { type: 'string' },
+    reference: { type: 'string' },
+    userId: { type: 'string' },
+    reused: { type: 'boolean' },
+    maxHistoricalDays: { type: 'number' },
+    accessValidForDays: { type: 'number' },
+    accessScope: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const renewedRequisitionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    link: { type: 'string' },
+    status: { type: 'string' },
+    institutionId: { type: 'string' },
+    reference: { type: 'string' },
+    userId: { type: 'string' },
+    renewedFrom: { type: 'string' },
+    reused: { type: 'boolean' },
+  },
+};
+
 const plugin: FastifyPluginAsync = async (fastify) => {
-  // List available institutions
+  // Search institutions across countries (bank picker)
   fastify.get('/institutions', {
     schema: {
       querystring: {
         type: 'object',
         properties: {
-          country: { type: 'string', minLength: 2, maxLength: 2 },
+          country: { type: 'string', pattern: '^[A-Za-z]{2}(,[A-Za-z]{2})*$' },
+          q: { type: 'string', maxLength: 100 },
         },
       },
       response: {
         200: {
           type: 'object',
           properties: {
-            institutions: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  id: { type: 'string' },
-                  name: { type: 'string' },
-                  bic: { type: 'string' },
-                  transaction_total_days: { type: 'string' },
-                  countries: { type: 'array', items: { type: 'string' } },
-                  logo: { type: 'string' },
-                },
-              },
-            },
+            institutions: { type: 'array', items: institutionSchema },
             count: { type: 'number' },
           },
         },
       },
     },
   }, async (request, reply) => {
-    const { country } = request.query as { country?: string };
-    const countryCode = country || config.gocardless.countryCode;
+    const { country, q } = request.query as { country?: string; q?: string };
+    const countryCodes = country
+      ? [...new Set(country.toUpperCase().split(','))]
+      : config.gocardless.countryCodes;
     
     try {
       const manager = getRequisitionManager();
-      const institutions = await manager.listInstitutions(countryCode);
+      const institutions = await manager.searchInstitutions(countryCodes, q);
       
       return {
-        institutions,
+        institutions: institutions.map(toInstitutionResponse),
         count: institutions.length,
       };
     } catch (err) {
-      logger.error({ err, countryCode }, 'Failed to list institutions');
+      logger.error({ err, countryCodes, q }, 'Failed to list institutions');
       return reply.code(500).send({
         error: 'LIST_INSTITUTIONS_FAILED',
         message: 'Failed to list institutions',
@@ -57,6 +147,79 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Institution metadata
+  fastify.get('/institutions/:institutionId', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          institutionId: { type: 'string' },
+        },
+        required: ['institutionId'],
+      },
+      response: {
+        200: institutionSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { institutionId } = request.params as { institutionId: string };
+    
+    try {
+      const institution = await getRequisitionManager().getInstitution(institutionId);
+      if (!institution) {
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: 'Institution not found',
+        });
+      }
+      
+      return toInstitutionResponse(institution);
+    } catch (err) {
+      logger.error({ err, institutionId }, 'Failed to get institution');
+      return reply.code(500).send({
+        error: 'GET_INSTITUTION_FAILED',
+        message: 'Failed to get institution',
+      });
+    }
+  });
+
+  // Cached institution logo; public so it can be used in <img> tags
+  fastify.get('/institutions/:institutionId/logo', {
+    config: { scope: 'public' },
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          institutionId: { type: 'string' },
+        },
+        required: ['institutionId'],
+      },
+    },
+  }, async (request, reply) => {
+    const { institutionId } = request.params as { institutionId: string };
+    
+    try {
+      const logo = await getRequisitionManager().getInstitutionLogo(institutionId);
+      if (!logo) {
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: 'Logo not found',
+        });
+      }
+      
+      return reply
+        .header('Cache-Control', 'public, max-age=86400')
+        .type(logo.contentType)
+        .send(logo.data);
+    } catch (err) {
+      logger.error({ err, institutionId }, 'Failed to get institution logo');
+      return reply.code(502).send({
+        error: 'LOGO_UNAVAILABLE',
+        message: 'Failed to fetch institution logo',
+      });
+    }
+  });
+
   // Create a new requisition
   fastify.post('/requisitions', {
     schema: {
@@ -66,63 +229,128 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         properties: {
           institutionId: { type: 'string' },
           redirectUrl: { type: 'string' },
+          returnUrl: { type: 'string' },
           reference: { type: 'string' },
-          userLanguage: { type: 'string' },
-          maxHistoricalDays: { type: 'number' },
-          accessValidForDays: { type: 'number' },
+          userId: { type: 'string', pattern: USER_ID_PATTERN },
+          userLanguage: { type: 'string', pattern: '^[A-Za-z]{2}$' },
+          maxHistoricalDays: { type: 'integer', minimum: 1 },
+          accessValidForDays: { type: 'integer', minimum: 1 },
+          accessScope: {
+            type: 'array',
+            items: { type: 'string', enum: ACCESS_SCOPES },
+            minItems: 1,
+          },
+          force: { type: 'boolean' },
         },
       },
       response: {
-        201: {
-          type: 'object',
-          properties: {
-            id: { type: 'string' },
-            link: { type: 'string' },
-            status: { type: 'string' },
-            institutionId: { type: 'string' },
-            reference: { type: 'string' },
-          },
-        },
+        200: createdRequisitionSchema,
+        201: createdRequisitionSchema,
       },
     },
   }, async (request, reply) => {
     const body = request.body as {
       institutionId: string;
       redirectUrl?: string;
+      returnUrl?: string;
       reference?: string;
+      userId?: string;
       userLanguage?: string;
       maxHistoricalDays?: number;
       accessValidForDays?: number;
+      accessScope?: string[];
+      force?: boolean;
     };
     
+    // User-scoped keys always link on behalf of their own user
+    const callerUserId = request.apiKey?.userId;
+    if (callerUserId && body.userId && body.userId !== callerUserId) {
+      return reply.code(403).send({
+        error: 'FORBIDDEN',
+        message: 'Cannot create requisitions for another user',
+      });
+    }
+    const userId = callerUserId || body.userId;
+    const reference = userId ? buildReference(userId, body.reference) : body.reference || uuid();
+    
+    if (body.returnUrl && !isAllowedReturnUrl(body.returnUrl)) {
+      return reply.code(400).send({
+        error: 'INVALID_RETURN_URL',
+        message: 'returnUrl must be on an allowed origin (CALLBACK_RETURN_ORIGINS)',
+      });
+    }
+    
+    // Links are created by the provider new accounts are synced with
+    const provider = getProvider(config.providers.default);
+    if (!provider.createLink) {
+      return reply.code(400).send({
+        error: 'LINKING_UNSUPPORTED',
+        message: `Provider ${provider.name} does not support linking`,
+      });
+    }
+    
     try {
       const manager = getRequisitionManager();
       
-      // Create agreement if custom parameters provided
-      let agreementId: string | undefined;
-      if (body.maxHistoricalDays || body.accessValidForDays) {
-        const agreement = await manager.createAgreement(
-          body.institutionId,
-          body.maxHistoricalDays,
-          body.accessValidForDays
-        );
-        agreementId = agreement.id;
+      const agreementParams = await manager.resolveAgreementParams(body.institutionId, {
+        maxHistoricalDays: body.maxHistoricalDays,
+        accessValidForDays: body.accessValidForDays,
+        accessScope: body.accessScope,
+      });
+      if (!agreementParams.valid) {
+        return reply.code(400).send({
+          error: 'INVALID_AGREEMENT_PARAMS',
+          message: agreementParams.message,
+        });
       }
+      const { params } = agreementParams;
       
-      const requisition = await manager.createRequisition(
-        body.institutionId,
-        body.redirectUrl || config.gocardless.redirectUrl,
-        agreementId,
-        body.reference,
-        body.userLanguage
-      );
+      // A second click on "link" gets the requisition already in progress
+      const existing = await manager.findActiveRequisition(body.institutionId, userId);
+      if (existing && !body.force) {
+        if (existing.status === 'LN') {
+          return reply.code(409).send({
+            error: 'REQUISITION_EXISTS',
+            message: 'This institution is already linked; pass force to link it again',
+            requisitionId: existing.id,
+          });
+        }
+        
+        return reply.code(200).send({
+          id: existing.id,
+          link: existing.link,
+          status: existing.status,
+          institutionId: existing.institution_id,
+          reference: existing.reference,
+          userId: referenceOwner(existing.reference) || undefined,
+          reused: true,
+        });
+      }
+      
+      // Forced: the unfinished link it replaces would become an orphan consent
+      if (existing && existing.status !== 'LN') {
+        await manager.deleteRequisition(existing.id);
+      }
+      
+      // The callback only trusts redirects carrying state signed for this reference
+      const state = createCallbackState(reference, body.returnUrl || config.callback.returnUrl);
+      const link = await provider.createLink({
+        institutionId: body.institutionId,
+        redirectUrl: withCallbackState(body.redirectUrl || config.gocardless.redirectUrl, state),
+        reference,
+        userLanguage: body.userLanguage?.toUpperCase(),
+        ...params,
+      });
       
       return reply.code(201).send({
-        id: requisition.id,
-        link: requisition.link,
-        status: requisition.status,
-        institutionId: requisition.institution_id,
-        reference: requisition.reference,
+        id: link.id,
+        link: link.link,
+        status: link.status,
+        institutionId: body.institutionId,
+        reference: link.reference,
+        userId: referenceOwner(link.reference) || undefined,
+        reused: false,
+        ...params,
       });
     } catch (err) {
       logger.error({ err, body }, 'Failed to create requisition');
@@ -154,24 +382,46 @@ const plugin: FastifyPluginAsync = async (fastify) => {
             institutionId: { type: 'string' },
             created: { type: 'string' },
             link: { type: 'string' },
+            userId: { type: 'string' },
+            expiresAt: { type: 'string' },
+            daysRemaining: { type: 'number' },
+            renewalId: { type: 'string' },
+            transitions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  from: { type: 'string' },
+                  to: { type: 'string' },
+                  at: { type: 'string' },
+                },
+              },
+            },
           },
         },
       },
     },
   }, async (request, reply) => {
     const { id } = request.params as { id: string };
+    const userId = request.apiKey?.userId;
     
     try {
       const manager = getRequisitionManager();
       const requisition = await manager.getRequisition(id);
       
-      if (!requisition) {
+      if (!requisition || (userId && referenceOwner(requisition.reference) !== userId)) {
         return reply.code(404).send({
           error: 'NOT_FOUND',
           message: 'Requisition not found',
         });
       }
       
+      await observeRequisition(requisition);
+      
+      const expiry = requisition.status === 'LN' || requisition.status === 'EX'
+        ? await getConsentExpiry(requisition)
+        : null;
+      
       return {
         id: requisition.id,
         status: requisition.status,
@@ -180,6 +430,11 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         institutionId: requisition.institution_id,
         created: requisition.created,
         link: requisition.link,
+        userId: referenceOwner(requisition.reference) || undefined,
+        expiresAt: expiry?.expiresAt,
+        daysRemaining: expiry?.daysRemaining,
+        renewalId: (await manager.getRenewal(requisition.id)) || undefined,
+        transitions: await getRequisitionTransitions(requisition.id),
       };
     } catch (err) {
       logger.error({ err, id }, 'Failed to get requisition');
@@ -190,8 +445,99 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Re-consent: new agreement + requisition for the same institution and owner
+  fastify.post('/requisitions/:id/renew', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          redirectUrl: { type: 'string' },
+          returnUrl: { type: 'string' },
+          userLanguage: { type: 'string' },
+        },
+      },
+      response: {
+        200: renewedRequisitionSchema,
+        201: renewedRequisitionSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = (request.body || {}) as { redirectUrl?: string; returnUrl?: string; userLanguage?: string };
+    const userId = request.apiKey?.userId;
+    
+    if (body.returnUrl && !isAllowedReturnUrl(body.returnUrl)) {
+      return reply.code(400).send({
+        error: 'INVALID_RETURN_URL',
+        message: 'returnUrl must be on an allowed origin (CALLBACK_RETURN_ORIGINS)',
+      });
+    }
+    
+    try {
+      const manager = getRequisitionManager();
+      const previous = await manager.getRequisition(id);
+      
+      if (!previous || (userId && referenceOwner(previous.reference) !== userId)) {
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: 'Requisition not found',
+        });
+      }
+      
+      const owner = referenceOwner(previous.reference);
+      const reference = owner ? buildReference(owner) : uuid();
+      const state = createCallbackState(reference, body.returnUrl || config.callback.returnUrl);
+      
+      const result = await manager.renewRequisition(
+        id,
+        withCallbackState(body.redirectUrl || config.gocardless.redirectUrl, state),
+        body.userLanguage,
+        reference
+      );
+      if (!result.renewed) {
+        if (result.reason === 'not_renewable') {
+          return reply.code(409).send({
+            error: 'REQUISITION_NOT_RENEWABLE',
+            message: `Requisition in status ${result.status} cannot be renewed`,
+          });
+        }
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: 'Requisition not found',
+        });
+      }
+      
+      // A renewal still in progress is handed out again
+      const { requisition, reused } = result;
+      return reply.code(reused ? 200 : 201).send({
+        id: requisition.id,
+        link: requisition.link,
+        status: requisition.status,
+        institutionId: requisition.institution_id,
+        reference: requisition.reference,
+        userId: referenceOwner(requisition.reference) || undefined,
+        renewedFrom: id,
+        reused,
+      });
+    } catch (err) {
+      logger.error({ err, id }, 'Failed to renew requisition');
+      return reply.code(500).send({
+        error: 'RENEW_REQUISITION_FAILED',
+        message: 'Failed to renew requisition',
+      });
+    }
+  });
+
   // Delete a requisition
   fastify.delete('/requisitions/:id', {
+    config: { scope: 'admin' },
     schema: {
       params: {
         type: 'object',
@@ -208,9 +554,21 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     },
   }, async (request, reply) => {
     const { id } = request.params as { id: string };
+    const userId = request.apiKey?.userId;
     
     try {
       const manager = getRequisitionManager();
+      
+      if (userId) {
+        const requisition = await manager.getRequisition(id);
+        if (!requisition || referenceOwner(requisition.reference) !== userId) {
+          return reply.code(404).send({
+            error: 'NOT_FOUND',
+            message: 'Requisition not found',
+          });
+        }
+      }
+      
       await manager.deleteRequisition(id);
       
       return reply.code(204).send();
@@ -223,71 +581,85 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     }
   });
 
-  // Handle requisition callback (after bank authorization)
+  // Bank redirect after consent: check the signed state, queue the initial
+  // sync and hand the outcome to the frontend
   fastify.get('/requisitions/callback', {
+    config: { scope: 'public' },
     schema: {
       querystring: {
         type: 'object',
         properties: {
           ref: { type: 'string' },
+          state: { type: 'string' },
           error: { type: 'string' },
+          details: { type: 'string' },
         },
       },
     },
   }, async (request, reply) => {
-    const { ref, error } = request.query as { ref?: string; error?: string };
+    const { ref, state, error, details } = request.query as {
+      ref?: string;
+      state?: string;
+      error?: string;
+      details?: string;
+    };
     
-    if (error) {
-      logger.error({ error, ref }, 'Requisition callback error');
-      return reply.type('text/html').send(`
-        <html>
-          <body>
-            <h1>Authorization Failed</h1>
-            <p>Error: ${error}</p>
-            <p>Please try again or contact support.</p>
-          </body>
-        </html>
-      `);
+    if (!ref) {
+      return sendCallbackPage(reply, 400, 'Invalid Callback', 'Missing reference parameter.');
     }
     
-    if (!ref) {
-      return reply.type('text/html').send(`
-        <html>
-          <body>
-            <h1>Invalid Callback</h1>
-            <p>Missing reference parameter.</p>
-          </body>
-        </html>
-      `);
+    const verification = verifyCallbackState(state, ref);
+    if (!verification.valid) {
+      logger.warn({ ref, reason: verification.reason }, 'Requisition callback rejected');
+      return sendCallbackPage(reply, 400, 'Invalid Callback', 'This link is invalid or has expired. Please start again.');
     }
     
+    const outcome: CallbackOutcome = { reference: ref, status: 'failed' };
+    
     try {
-      // In production, you might want to redirect to your frontend app
-      // For now, we'll just show a success message
-      logger.info({ ref }, 'Requisition callback received');
+      const requisition = await getRequisitionManager().getRequisitionByReference(ref);
+      outcome.requisitionId = requisition?.id;
+      if (requisition) {
+        await observeRequisition(requisition);
+      }
+      
+      if (error) {
+        logger.warn({ ref, error, details }, 'Requisition callback error');
+        outcome.error = error;
+      } else if (!requisition) {
+        outcome.error = 'REQUISITION_NOT_FOUND';
+      } else if (requisition.status === 'LN') {
+        await queueInitialSync(requisition);
+        outcome.status = 'linked';
+      } else if (['CR', 'GA', 'UA'].includes(requisition.status)) {
+        outcome.status = 'pending';
+      } else {
+        outcome.error = requisition.status;
+      }
       
-      return reply.type('text/html').send(`
-        <html>
-          <body>
-            <h1>Authorization Successful</h1>
-            <p>Your bank account has been successfully linked.</p>
-            <p>Reference: ${ref}</p>
-            <p>You can now close this window and return to the application.</p>
-          </body>
-        </html>
-      `);
+      logger.info({ ref, requisitionId: outcome.requisitionId, status: outcome.status }, 'Requisition callback received');
     } catch (err) {
       logger.error({ err, ref }, 'Failed to handle callback');
-      return reply.type('text/html').send(`
-        <html>
-          <body>
-            <h1>Error</h1>
-            <p>An error occurred while processing your authorization.</p>
-            <p>Please try again or contact support.</p>
-          </body>
-        </html>
-      `);
+      outcome.error = 'CALLBACK_FAILED';
+    }
+    
+    if (verification.returnUrl) {
+      const url = new URL(verification.returnUrl);
+      url.searchParams.set('status', outcome.status);
+      url.searchParams.set('reference', outcome.reference);
+      if (outcome.requisitionId) url.searchParams.set('requisitionId', outcome.requisitionId);
+      if (outcome.error) url.searchParams.set('error', outcome.error);
+      return reply.redirect(url.toString());
     }
+    
+    // No frontend configured: show the outcome directly
+    if (outcome.status === 'linked') {
+      return sendCallbackPage(reply, 200, 'Authorization Successful', 'Your bank account has been successfully linked. You can now close this window and return to the application.');
+    }
+    if (outcome.status === 'pending') {
+      return sendCallbackPage(reply, 200, 'Authorization In Progress', 'Your bank is still processing the authorization. You can close this window.');
+    }
+    return sendCallbackPage(reply, 200, 'Authorization Failed', `Error: ${outcome.error}. Please try again or contact support.`);
   });
 
   // List all requisitions
@@ -317,6 +689,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
                   institutionId: { type: 'string' },
                   created: { type: 'string' },
                   accounts: { type: 'array', items: { type: 'string' } },
+                  userId: { type: 'string' },
                 },
               },
             },
@@ -326,21 +699,26 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     },
   }, async (request, reply) => {
     const { limit, offset } = request.query as { limit?: number; offset?: number };
+    const userId = request.apiKey?.userId;
     
     try {
       const manager = getRequisitionManager();
       const result = await manager.listRequisitions(limit || 100, offset || 0);
+      const results = userId
+        ? result.results.filter(r => referenceOwner(r.reference) === userId)
+        : result.results;
       
       return {
-        count: result.count,
+        count: userId ? results.length : result.count,
         next: result.next,
         previous: result.previous,
-        results: result.results.map(r => ({
+        results: results.map(r => ({
           id: r.id,
           status: r.status,
           institutionId: r.institution_id,
           created: r.created,
           accounts: r.accounts || [],
+          userId: referenceOwner(r.reference) || undefined,
         })),
       };
     } catch (err) {
@@ -354,6 +732,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
 
   // Clean up duplicate requisitions
   fastify.post('/requisitions/cleanup', {
+    config: { scope: 'admin' },
     schema: {
       response: {
         200: {
@@ -366,7 +745,9 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         }
       }
     }
-  }, async (_request, reply) => {
+  }, async (request, reply) => {
+    const userId = request.apiKey?.userId;
+    
     try {
       const manager = getRequisitionManager();
       const requisitions = await manager.listRequisitions();
@@ -375,6 +756,9 @@ const plugin: FastifyPluginAsync = async (fastify) => {
       const groups = new Map<string, typeof requisitions.results>();
       
       for (const req of requisitions.results) {
+        // User-scoped admins only clean up their own requisitions
+        if (userId && referenceOwner(req.reference) !== userId) continue;
+        
         if (req.status === 'LN') {
           const key = req.accounts.sort().join(',');
           if (!groups.has(key)) {
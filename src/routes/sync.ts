@@ -1,13 +1,8 @@
 import { FastifyPluginAsync } from 'fastify';
-import { v4 as uuid } from 'uuid';
-import { startSync } from '../workers/syncRunner';
+import { createOperation, getOperation, startSync } from '../workers/syncRunner';
+import { resumeBackfill, startBackfill } from '../workers/backfillRunner';
 import { isLocked } from '../lib/lock';
-import { getRedis } from '../lib/redis';
 import { logger } from '../logger';
-import { SyncOperation } from '../types';
-
-const OPERATION_PREFIX = 'gc:op:';
-const OPERATION_TTL = 7 * 24 * 60 * 60; // 7 days
 
 const plugin: FastifyPluginAsync = async (fastify) => {
   fastify.post('/sync/:accountId', {
@@ -24,6 +19,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         properties: {
           fromDate: { type: 'string', format: 'date' },
           toDate: { type: 'string', format: 'date' },
+          deepScan: { type: 'boolean' },
         },
       },
       response: {
@@ -37,7 +33,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     },
   }, async (request, reply) => {
     const { accountId } = request.params as { accountId: string };
-    const body = request.body as { fromDate?: string; toDate?: string };
+    const body = (request.body || {}) as { fromDate?: string; toDate?: string; deepScan?: boolean };
     
     try {
       // Check if sync is already in progress
@@ -50,29 +46,13 @@ const plugin: FastifyPluginAsync = async (fastify) => {
       }
 
       // Create operation
-      const operationId = uuid();
-      const operation: SyncOperation = {
-        operationId,
-        accountId,
-        status: 'pending',
-        startedAt: new Date().toISOString(),
-        processed: 0,
-        errors: [],
-      };
-
-      // Store operation
-      const redis = getRedis();
-      await redis.set(
-        `${OPERATION_PREFIX}${operationId}`,
-        JSON.stringify(operation),
-        'EX',
-        OPERATION_TTL
-      );
+      const { operationId } = await createOperation(accountId);
 
       // Start sync asynchronously
       startSync(accountId, operationId, {
         fromDate: body.fromDate,
         toDate: body.toDate,
+        deepScan: body.deepScan,
       }).catch((err) => {
         logger.error({ err, accountId, operationId }, 'Sync failed');
       });
@@ -99,19 +79,18 @@ const plugin: FastifyPluginAsync = async (fastify) => {
     },
   }, async (request, reply) => {
     const { operationId } = request.params as { operationId: string };
+    const userId = request.apiKey?.userId;
     
     try {
-      const redis = getRedis();
-      const data = await redis.get(`${OPERATION_PREFIX}${operationId}`);
+      const operation = await getOperation(operationId);
       
-      if (!data) {
+      if (!operation || (userId && operation.userId !== userId)) {
         return reply.code(404).send({
           error: 'NOT_FOUND',
           message: 'Operation not found',
         });
       }
 
-      const operation = JSON.parse(data) as SyncOperation;
       return operation;
     } catch (err) {
       logger.error({ err, operationId }, 'Failed to get operation');
@@ -121,6 +100,93 @@ const plugin: FastifyPluginAsync = async (fastify) => {
       });
     }
   });
+
+  // Pull the account's full available history in chunks via the scheduler
+  fastify.post('/backfill/:accountId', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          accountId: { type: 'string' },
+        },
+        required: ['accountId'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          days: { type: 'integer', minimum: 1, maximum: 730 },
+          chunkDays: { type: 'integer', minimum: 1, maximum: 365 },
+        },
+      },
+      response: {
+        202: {
+          type: 'object',
+          properties: {
+            operationId: { type: 'string' },
+            chunks: { type: 'integer' },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { accountId } = request.params as { accountId: string };
+    const body = (request.body || {}) as { days?: number; chunkDays?: number };
+    
+    try {
+      const operation = await startBackfill(accountId, body);
+      return reply.code(202).send({
+        operationId: operation.operationId,
+        chunks: operation.chunks?.length || 0,
+      });
+    } catch (err) {
+      logger.error({ err, accountId }, 'Failed to start backfill');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to start backfill',
+      });
+    }
+  });
+
+  // Re-queue an unfinished backfill from its first incomplete chunk
+  fastify.post('/operations/:operationId/resume', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          operationId: { type: 'string' },
+        },
+        required: ['operationId'],
+      },
+    },
+  }, async (request, reply) => {
+    const { operationId } = request.params as { operationId: string };
+    const userId = request.apiKey?.userId;
+    
+    try {
+      if (userId && (await getOperation(operationId))?.userId !== userId) {
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: 'No unfinished backfill with this operation ID',
+        });
+      }
+
+      const operation = await resumeBackfill(operationId);
+      if (!operation) {
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: 'No unfinished backfill with this operation ID',
+        });
+      }
+
+      return reply.code(202).send({ operationId });
+    } catch (err) {
+      logger.error({ err, operationId }, 'Failed to resume backfill');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to resume backfill',
+      });
+    }
+  });
 };
 
-export default plugin;
\ No newline at end of file
+export default plugin;
@@ -0,0 +1,62 @@
+import Fastify, { FastifyInstance } from 'fastify';
+
+const queryTransactions = jest.fn();
+
+jest.mock('../lib/db', () => ({ isDatabaseEnabled: () => true }));
+jest.mock('../lib/repository', () => ({
+  ...jest.requireActual('../lib/repository'),
+  queryTransactions: (...args: unknown[]) => queryTransactions(...args),
+}));
+jest.mock('../lib/accountIdentity', () => ({ resolveAccountId: async (id: string) => id }));
+jest.mock('../lib/tenancy', () => ({}));
+
+import { encodeTransactionCursor } from '../lib/repository';
+import transactions from './transactions';
+
+describe('transaction pages', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify();
+    await app.register(transactions, { prefix: '/v1' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    queryTransactions.mockReset().mockResolvedValue({ transactions: [] });
+  });
+
+  it('passes a decoded cursor for the same sort through', async () => {
+    const cursor = { sort: 'amount' as const, value: '12.50', txId: 'tx-1' };
+    const response = await app.inject({
+      method: 'GET',
+      url: `/v1/accounts/acc-1/transactions?sort=amount&cursor=${encodeTransactionCursor(cursor)}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(queryTransactions).toHaveBeenCalledWith(expect.objectContaining({ accountIds: ['acc-1'], cursor }));
+  });
+
+  it('rejects a cursor issued for a different sort', async () => {
+    const cursor = encodeTransactionCursor({ sort: 'bookedAt', value: '2024-03-01', txId: 'tx-1' });
+    const response = await app.inject({
+      method: 'GET',
+      url: `/v1/accounts/acc-1/transactions?sort=amount&cursor=${cursor}`,
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe('INVALID_CURSOR');
+    expect(queryTransactions).not.toHaveBeenCalled();
+  });
+
+  it('rejects a cursor that does not decode', async () => {
+    const response = await app.inject({ method: 'GET', url: '/v1/accounts/acc-1/transactions?cursor=garbage' });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe('INVALID_CURSOR');
+  });
+});
@@ -0,0 +1,168 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { isDatabaseEnabled } from '../lib/db';
+import {
+  TransactionQuery,
+  decodeTransactionCursor,
+  encodeTransactionCursor,
+  queryTransactions,
+} from '../lib/repository';
+import { resolveAccountId } from '../lib/accountIdentity';
+import { filterAccessibleAccounts, listUserAccountIds } from '../lib/tenancy';
+import { logger } from '../logger';
+
+interface TransactionQuerystring {
+  fromDate?: string;
+  toDate?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  direction?: 'in' | 'out';
+  status?: 'pending' | 'booked';
+  counterparty?: string;
+  counterpartyIban?: string;
+  q?: string;
+  sort?: 'bookedAt' | 'amount';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+const filterProperties = {
+  fromDate: { type: 'string', format: 'date' },
+  toDate: { type: 'string', format: 'date' },
+  minAmount: { type: 'number', minimum: 0 },
+  maxAmount: { type: 'number', minimum: 0 },
+  direction: { type: 'string', enum: ['in', 'out'] },
+  status: { type: 'string', enum: ['pending', 'booked'] },
+  counterparty: { type: 'string', minLength: 1 },
+  counterpartyIban: { type: 'string', minLength: 1 },
+  q: { type: 'string', minLength: 1 },
+  sort: { type: 'string', enum: ['bookedAt', 'amount'], default: 'bookedAt' },
+  order: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+  limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+  cursor: { type: 'string' },
+};
+
+const pageResponse = {
+  200: {
+    type: 'object',
+    properties: {
+      transactions: {
+        type: 'array',
+        items: { type: 'object', additionalProperties: true },
+      },
+      nextCursor: { type: ['string', 'null'] },
+    },
+  },
+};
+
+async function sendPage(
+  reply: FastifyReply,
+  accountIds: string[] | undefined,
+  qs: TransactionQuerystring
+) {
+  if (!isDatabaseEnabled()) {
+    return reply.code(503).send({
+      error: 'STORE_DISABLED',
+      message: 'Transaction store is not configured (DB_URL)',
+    });
+  }
+
+  const sort = qs.sort || 'bookedAt';
+  let cursor: TransactionQuery['cursor'];
+  if (qs.cursor) {
+    const decoded = decodeTransactionCursor(qs.cursor);
+    if (!decoded || decoded.sort !== sort) {
+      return reply.code(400).send({
+        error: 'INVALID_CURSOR',
+        message: 'Cursor is invalid or was issued for a different sort',
+      });
+    }
+    cursor = decoded;
+  }
+
+  try {
+    // History is stored under internal IDs, whichever provider ID was asked for
+    const result = await queryTransactions({
+      accountIds: accountIds && [...new Set(await Promise.all(accountIds.map(resolveAccountId)))],
+      fromDate: qs.fromDate,
+      toDate: qs.toDate,
+      minAmount: qs.minAmount,
+      maxAmount: qs.maxAmount,
+      direction: qs.direction,
+      status: qs.status,
+      counterparty: qs.counterparty,
+      counterpartyIban: qs.counterpartyIban,
+      search: qs.q,
+      sort,
+      order: qs.order,
+      limit: qs.limit,
+      cursor,
+    });
+
+    return reply.send({
+      transactions: result.transactions,
+      nextCursor: result.nextCursor ? encodeTransactionCursor(result.nextCursor) : null,
+    });
+  } catch (err) {
+    logger.error({ err, accountIds, query: qs }, 'Failed to query transactions');
+    return reply.code(500).send({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to query transactions',
+    });
+  }
+}
+
+const plugin: FastifyPluginAsync = async (fastify) => {
+  // Transactions for one account
+  fastify.get('/accounts/:accountId/transactions', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          accountId: { type: 'string' },
+        },
+        required: ['accountId'],
+      },
+      querystring: {
+        type: 'object',
+        properties: filterProperties,
+      },
+      response: pageResponse,
+    },
+  }, async (request, reply) => {
+    const { accountId } = request.params as { accountId: string };
+    return sendPage(reply, [accountId], request.query as TransactionQuerystring);
+  });
+
+  // Transactions across accounts (optionally restricted with ?accountId=a&accountId=b)
+  fastify.get('/transactions', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          ...filterProperties,
+          accountId: { type: 'array', items: { type: 'string' } },
+        },
+      },
+      response: pageResponse,
+    },
+  }, async (request, reply) => {
+    const { accountId, ...qs } = request.query as TransactionQuerystring & { accountId?: string[] };
+    const userId = request.apiKey?.userId;
+    if (!userId) {
+      return sendPage(reply, accountId, qs);
+    }
+
+    // User-scoped keys only query their own accounts
+    const accountIds = accountId && accountId.length > 0
+      ? await filterAccessibleAccounts(userId, accountId)
+      : await listUserAccountIds(userId);
+    if (accountIds.length === 0) {
+      return reply.send({ transactions: [], nextCursor: null });
+    }
+
+    return sendPage(reply, accountIds, qs);
+  });
+};
+
+export default plugin;
@@ -1,20 +1,39 @@
 import { FastifyPluginAsync } from 'fastify';
 import { getGCClient } from '../lib/gcClient';
 import { getRedis } from '../lib/redis';
-import { emit } from '../lib/events';
 import { logger } from '../logger';
 import { WebhookEvent } from '../lib/gcClient';
+import { enqueueWebhookEvent } from '../workers/webhookWorker';
 
 const WEBHOOK_REPLAY_PREFIX = 'gc:webhook:sig:';
 const WEBHOOK_REPLAY_TTL = 72 * 60 * 60; // 72 hours
 
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: Buffer; // Set for webhook routes, signatures are over the received bytes
+  }
+}
+
 const plugin: FastifyPluginAsync = async (fastify) => {
+  // Keep the raw body for signature checks (scoped to this plugin)
+  fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (request, body, done) => {
+    request.rawBody = body as Buffer;
+    try {
+      done(null, JSON.parse((body as Buffer).toString('utf8')));
+    } catch (err: any) {
+      err.statusCode = 400;
+      done(err, undefined);
+    }
+  });
+
   fastify.post('/webhook/gocardless', {
+    config: { scope: 'public' },
     schema: {
       headers: {
         type: 'object',
         properties: {
           'x-signature': { type: 'string' },
+          'x-signature-timestamp': { type: 'string' },
         },
       },
       body: {
@@ -38,24 +57,33 @@ const plugin: FastifyPluginAsync = async (fastify) => {
       },
     },
   }, async (request, reply) => {
-    const signature = request.headers['x-signature'] as string;
-    const body = JSON.stringify(request.body);
+    const signature = request.headers['x-signature'] as string | undefined;
+    const timestamp = request.headers['x-signature-timestamp'] as string | undefined;
     
     try {
-      // Verify signature
+      // Verify signature over the bytes as received
       const gcClient = getGCClient();
-      const isValid = gcClient.verifyWebhookSignature(body, signature);
+      const verification = gcClient.verifyWebhookSignature(
+        request.rawBody || Buffer.alloc(0),
+        signature,
+        timestamp
+      );
       
-      if (!isValid) {
-        logger.warn('Invalid webhook signature');
+      if (!verification.valid) {
+        logger.warn({ reason: verification.reason, timestamp }, 'Webhook rejected');
         return reply.code(401).send({
           error: 'INVALID_SIGNATURE',
           message: 'Invalid webhook signature',
         });
       }
 
+      if (verification.secretIndex > 0) {
+        logger.info({ secretIndex: verification.secretIndex }, 'Webhook signed with a previous secret');
+      }
+
       const payload = request.body as { events: WebhookEvent[] };
       const redis = getRedis();
+      let accepted = 0;
       
       for (const event of payload.events) {
         // Check for replay
@@ -69,85 +97,30 @@ const plugin: FastifyPluginAsync = async (fastify) => {
         );
         
         if (alreadyProcessed === null) {
-          logger.debug({ eventId: event.id }, 'Webhook event already processed');
+          logger.debug({ eventId: event.id }, 'Webhook event already received');
           continue;
         }
 
-        // Process event based on type
-        await processWebhookEvent(event);
+        // Persist and acknowledge; the webhook worker processes it
+        try {
+          await enqueueWebhookEvent(event);
+        } catch (err) {
+          // Let the provider redeliver it
+          await redis.del(replayKey);
+          throw err;
+        }
+        accepted++;
       }
 
-      return { status: 'ok' };
+      return { status: 'ok', accepted };
     } catch (err) {
-      logger.error({ err }, 'Failed to process webhook');
+      logger.error({ err }, 'Failed to receive webhook');
       return reply.code(500).send({
         error: 'INTERNAL_ERROR',
-        message: 'Failed to process webhook',
+        message: 'Failed to receive webhook',
       });
     }
   });
 };
 
-async function processWebhookEvent(event: WebhookEvent): Promise<void> {
-  logger.info({ 
-    eventId: event.id,
-    resourceType: event.resource_type,
-    action: event.action
-  }, 'Processing webhook event');
-
-  try {
-    switch (event.resource_type) {
-      case 'requisition':
-        await handleRequisitionEvent(event);
-        break;
-      case 'account':
-        await handleAccountEvent(event);
-        break;
-      case 'transaction':
-        await handleTransactionEvent(event);
-        break;
-      default:
-        logger.debug({ resourceType: event.resource_type }, 'Unknown resource type');
-    }
-  } catch (err) {
-    logger.error({ err, event }, 'Failed to process webhook event');
-    throw err;
-  }
-}
-
-async function handleRequisitionEvent(event: WebhookEvent): Promise<void> {
-  // Handle requisition events (account linking, etc.)
-  if (event.action === 'created' || event.action === 'linked') {
-    logger.info({ event }, 'Requisition linked');
-    // Could trigger initial sync here
-  }
-}
-
-async function handleAccountEvent(event: WebhookEvent): Promise<void> {
-  // Handle account events
-  if (event.action === 'updated') {
-    const accountId = event.links?.account;
-    if (accountId) {
-      await emit('bank.account.updated', {
-        accountId,
-        provider: 'gocardless',
-        updatedAt: event.created_at,
-      });
-    }
-  }
-}
-
-async function handleTransactionEvent(event: WebhookEvent): Promise<void> {
-  // Handle transaction events
-  if (event.action === 'created') {
-    const transactionId = event.links?.transaction;
-    const accountId = event.links?.account;
-    
-    if (transactionId && accountId) {
-      // Could fetch full transaction details and emit event
-      logger.info({ transactionId, accountId }, 'New transaction via webhook');
-    }
-  }
-}
-
-export default plugin;
\ No newline at end of file
+export default plugin;
@@ -0,0 +1,163 @@
+import { FastifyPluginAsync } from 'fastify';
+import {
+  WebhookEventStatus,
+  getWebhookEvent,
+  listWebhookEvents,
+  redriveDeadWebhookEvents,
+  redriveWebhookEvent,
+} from '../workers/webhookWorker';
+import { logger } from '../logger';
+
+const eventProperties = {
+  id: { type: 'string' },
+  event: { type: 'object', additionalProperties: true },
+  status: { type: 'string' },
+  attempts: { type: 'number' },
+  receivedAt: { type: 'string' },
+  nextAttemptAt: { type: 'string' },
+  processedAt: { type: 'string' },
+  lastError: { type: 'string' },
+};
+
+const eventListSchema = {
+  type: 'object',
+  properties: {
+    events: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: eventProperties,
+      },
+    },
+  },
+};
+
+const eventParamsSchema = {
+  type: 'object',
+  properties: {
+    eventId: { type: 'string' },
+  },
+  required: ['eventId'],
+};
+
+// Webhook events span all users, so inspection is admin only
+const plugin: FastifyPluginAsync = async (fastify) => {
+  fastify.get('/webhooks/events', {
+    config: { scope: 'admin', serviceWide: true },
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pending', 'processing', 'processed', 'dead'] },
+          limit: { type: 'number', minimum: 1, maximum: 500, default: 50 },
+        },
+      },
+      response: {
+        200: eventListSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { status, limit } = request.query as { status?: WebhookEventStatus; limit?: number };
+
+    try {
+      return { events: await listWebhookEvents({ status, limit }) };
+    } catch (err) {
+      logger.error({ err }, 'Failed to list webhook events');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to list webhook events',
+      });
+    }
+  });
+
+  fastify.get('/webhooks/events/:eventId', {
+    config: { scope: 'admin', serviceWide: true },
+    schema: {
+      params: eventParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: eventProperties,
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { eventId } = request.params as { eventId: string };
+
+    try {
+      const record = await getWebhookEvent(eventId);
+      if (!record) {
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: 'Webhook event not found',
+        });
+      }
+
+      return record;
+    } catch (err) {
+      logger.error({ err, eventId }, 'Failed to get webhook event');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to get webhook event',
+      });
+    }
+  });
+
+  // Queue an event again with a fresh attempt budget
+  fastify.post('/webhooks/events/:eventId/redrive', {
+    config: { scope: 'admin', serviceWide: true },
+    schema: {
+      params: eventParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: eventProperties,
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { eventId } = request.params as { eventId: string };
+
+    try {
+      const record = await redriveWebhookEvent(eventId);
+      if (!record) {
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: 'Webhook event not found',
+        });
+      }
+
+      return record;
+    } catch (err) {
+      logger.error({ err, eventId }, 'Failed to re-drive webhook event');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to re-drive webhook event',
+      });
+    }
+  });
+
+  // Re-drive the whole dead-letter list
+  fastify.post('/webhooks/events/redrive', {
+    config: { scope: 'admin', serviceWide: true },
+    schema: {
+      response: {
+        200: eventListSchema,
+      },
+    },
+  }, async (_request, reply) => {
+    try {
+      const events = await redriveDeadWebhookEvents();
+      logger.info({ count: events.length }, 'Dead-lettered webhook events re-driven');
+      return { events };
+    } catch (err) {
+      logger.error({ err }, 'Failed to re-drive webhook events');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to re-drive webhook events',
+      });
+    }
+  });
+};
+
+export default plugin;
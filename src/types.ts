@@ -1,4 +1,41 @@
-export interface BankTransaction {
+export interface CurrencyExchange {
+  sourceCurrency: string;
+  targetCurrency?: string;
+  unitCurrency?: string;
+  exchangeRate?: number; // Units of the other currency per unitCurrency
+  quotationDate?: string;
+  instructedAmount?: {
+    amount: number;
+    currency: string;
+  };
+}
+
+/**
+ * Optional references and SEPA details, set when the bank sends them
+ */
+export interface TransactionDetails {
+  entryReference?: string;
+  endToEndId?: string;
+  mandateId?: string; // SEPA direct-debit mandate
+  creditorId?: string; // SEPA creditor identifier
+  merchantCategoryCode?: string; // ISO 18245 MCC of card payments
+  currencyExchange?: CurrencyExchange;
+  // Amount as instructed, when in another currency than `asset`
+  originalAmount?: number; // Absolute value
+  originalCurrency?: string;
+  exchangeRate?: number; // Units of `asset` per unit of originalCurrency
+  balanceAfterTransaction?: {
+    amount: number;
+    currency: string;
+    balanceType?: string;
+  };
+  additionalInformation?: string;
+  remittanceInformation?: string[]; // Every unstructured remittance line
+  ultimateCreditor?: string;
+  ultimateDebtor?: string;
+}
+
+export interface BankTransaction extends TransactionDetails {
   txId: string;
   externalRef: string;
   accountId: string;
@@ -8,6 +45,7 @@ export interface BankTransaction {
   amount: number;
   fee: number;
   direction: 'in' | 'out';
+  status: 'pending' | 'booked';
   bookedAt: string;
   valueDate?: string;
   description?: string;
@@ -20,15 +58,35 @@ export interface BankTransaction {
   metadata?: Record<string, any>;
 }
 
+export interface SyncChunk {
+  fromDate: string;
+  toDate: string;
+  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  processed: number;
+  resumeFrom?: string; // Set when the chunk hit the per-sync limit
+  completedAt?: string;
+}
+
 export interface SyncOperation {
   operationId: string;
   accountId: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  type?: 'sync' | 'backfill';
+  userId?: string; // Owner of the account at creation time
+  status: 'pending' | 'in_progress' | 'completed' | 'partial' | 'failed';
   startedAt: string;
   completedAt?: string;
   processed: number;
   errors: string[];
   cursor?: string;
+  resumeFrom?: string; // Set when status is 'partial'
+  chunks?: SyncChunk[]; // Backfill date ranges, newest first
+}
+
+export interface BalanceInfo {
+  type: string;
+  amount: number;
+  currency: string;
+  referenceDate?: string;
 }
 
 export interface AccountInfo {
@@ -37,7 +95,20 @@ export interface AccountInfo {
   provider: string;
   iban: string;
   currency: string;
-  balance?: number;
+  balance?: number; // Primary balance (interimAvailable when reported)
+  balances?: BalanceInfo[];
   lastSyncAt?: string;
   status: 'active' | 'inactive' | 'suspended';
+  userId?: string;
+  internalId?: string; // Stable across re-links; transactions are stored under it
+  // From the account details, once fetched
+  ownerName?: string;
+  product?: string;
+  cashAccountType?: string; // ISO 20022 code: CACC (current), SVGS (savings), CARD, ...
+  bban?: string;
+  institution?: {
+    id: string;
+    name?: string;
+    logoUrl: string;
+  };
 }
\ No newline at end of file
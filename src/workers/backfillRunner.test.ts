@@ -0,0 +1,47 @@
+jest.mock('../lib/notifications', () => ({}));
+
+import { buildChunks } from './backfillRunner';
+
+describe('buildChunks', () => {
+  beforeAll(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-03-31T12:00:00Z'));
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('splits the window into pending chunks, newest first', () => {
+    const chunks = buildChunks(90, 30);
+
+    expect(chunks).toEqual([
+      { fromDate: '2024-03-02', toDate: '2024-03-31', status: 'pending', processed: 0 },
+      { fromDate: '2024-02-01', toDate: '2024-03-01', status: 'pending', processed: 0 },
+      { fromDate: '2024-01-02', toDate: '2024-01-31', status: 'pending', processed: 0 },
+    ]);
+  });
+
+  it('shortens the oldest chunk to the requested days', () => {
+    const chunks = buildChunks(45, 30);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1]).toMatchObject({ fromDate: '2024-02-16', toDate: '2024-03-01' });
+  });
+
+  it('covers every day once without gaps', () => {
+    const chunks = buildChunks(100, 7);
+    const day = 24 * 60 * 60 * 1000;
+
+    for (let i = 1; i < chunks.length; i++) {
+      const gap = new Date(chunks[i - 1].fromDate).getTime() - new Date(chunks[i].toDate).getTime();
+      expect(gap).toBe(day);
+    }
+    expect(chunks[chunks.length - 1].fromDate).toBe('2023-12-23');
+  });
+
+  it('returns a single chunk when the window fits in one', () => {
+    expect(buildChunks(5, 30)).toEqual([
+      { fromDate: '2024-03-27', toDate: '2024-03-31', status: 'pending', processed: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,300 @@
+import { identifyAccount, registerAccountIdentity } from '../lib/accountIdentity';
+import { getCursor } from '../lib/cursor';
+import { withAccountLock } from '../lib/lock';
+import { emit } from '../lib/events';
+import { getAccountProvider } from '../lib/provider';
+import { getRedis } from '../lib/redis';
+import { upsertAccount } from '../lib/repository';
+import { Requisition, getRequisitionManager } from '../lib/requisition';
+import { getAccountOwner, referenceOwner, setAccountOwner } from '../lib/tenancy';
+import { logger } from '../logger';
+import { config } from '../config';
+import { SyncChunk, SyncOperation } from '../types';
+import {
+  createOperation,
+  executeSyncWithRetry,
+  getOperation,
+  updateOperation,
+} from './syncRunner';
+
+const BACKFILL_PREFIX = 'gc:backfill:'; // Latest backfill operation per account
+
+export interface BackfillOptions {
+  days?: number;
+  chunkDays?: number;
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+/**
+ * Split [today - days, today] into chunks, newest first so recent history
+ * lands in the ledger before older history
+ */
+export function buildChunks(days: number, chunkDays: number): SyncChunk[] {
+  const chunks: SyncChunk[] = [];
+
+  for (let end = 0; end < days; end += chunkDays) {
+    chunks.push({
+      fromDate: daysAgo(Math.min(end + chunkDays, days) - 1),
+      toDate: daysAgo(end),
+      status: 'pending',
+      processed: 0,
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Create a backfill operation covering the account's available history and
+ * queue its first chunk on the scheduler
+ */
+export async function startBackfill(
+  accountId: string,
+  options: BackfillOptions = {}
+): Promise<SyncOperation> {
+  const provider = await getAccountProvider(accountId);
+  const limit = provider.getHistoryLimitDays
+    ? await provider.getHistoryLimitDays(accountId)
+    : null;
+
+  const requested = options.days || limit || config.sync.defaultLookbackDays;
+  const days = limit ? Math.min(requested, limit) : requested;
+  const chunks = buildChunks(days, options.chunkDays || config.sync.backfillChunkDays);
+
+  const operation = await createOperation(accountId, { type: 'backfill', chunks });
+
+  const redis = getRedis();
+  await redis.set(`${BACKFILL_PREFIX}${accountId}`, operation.operationId);
+
+  await scheduleChunk(accountId, operation.operationId);
+
+  logger.info({
+    accountId,
+    operationId: operation.operationId,
+    provider: provider.name,
+    days,
+    historyLimit: limit,
+    chunks: chunks.length,
+  }, 'Backfill created');
+
+  return operation;
+}
+
+/**
+ * Backfill an account that has never been synced or backfilled (a newly
+ * linked account). Returns the new operation, or null if not needed.
+ */
+export async function ensureInitialBackfill(accountId: string): Promise<SyncOperation | null> {
+  // A re-linked account continues its existing history instead
+  const internalId = await identifyAccount(accountId);
+  if (
+    (await getCursor(internalId)) ||
+    (await getBackfillOperationId(internalId)) ||
+    (await getBackfillOperationId(accountId))
+  ) {
+    return null;
+  }
+
+  return startBackfill(accountId);
+}
+
+/**
+ * Register a linked account's identity (mapping a re-linked ID onto its
+ * existing history) and store its account row
+ */
+async function recordLinkedAccount(accountId: string): Promise<void> {
+  const provider = await getAccountProvider(accountId);
+  const account = await provider.getAccount(accountId);
+  if (!account) {
+    logger.warn({ accountId }, 'Linked account not found at the provider');
+    return;
+  }
+
+  const internalId = await registerAccountIdentity(accountId, account.institutionId, account.iban);
+  await upsertAccount({
+    accountId: internalId,
+    provider: provider.name,
+    iban: account.iban,
+    institutionId: account.institutionId,
+    ownerName: account.ownerName,
+    status: account.status,
+    userId: (await getAccountOwner(accountId)) || undefined,
+  });
+}
+
+/**
+ * Queue the first syncs of a freshly linked requisition's accounts: record
+ * them, assign them to the requisition and its owner, backfill their history
+ * and fetch balances and details. Everything runs through the scheduler,
+ * within the daily quota.
+ */
+export async function queueInitialSync(requisition: Requisition): Promise<void> {
+  const requisitionManager = getRequisitionManager();
+  const owner = referenceOwner(requisition.reference);
+  const { getScheduler } = await import('../lib/scheduler');
+
+  for (const accountId of requisition.accounts || []) {
+    await requisitionManager.mapAccountToRequisition(accountId, requisition.id);
+    if (owner) {
+      await setAccountOwner(accountId, owner);
+    }
+    await recordLinkedAccount(accountId);
+
+    // Only what the consent covers (e.g. balances-only agreements)
+    const scope = await requisitionManager.getAccountAccessScope(accountId);
+    const backfill = scope.includes('transactions') ? await ensureInitialBackfill(accountId) : null;
+    if (scope.includes('balances')) {
+      await getScheduler().scheduleBalanceSync(accountId, 2);
+    }
+    if (scope.includes('details')) {
+      await getScheduler().scheduleDetailsSync(accountId, 2);
+    }
+
+    logger.info({
+      requisitionId: requisition.id,
+      accountId,
+      backfillOperationId: backfill?.operationId,
+    }, 'Requisition linked, initial sync queued');
+  }
+}
+
+/**
+ * Latest backfill operation ID of an account (null if never backfilled)
+ */
+export async function getBackfillOperationId(accountId: string): Promise<string | null> {
+  const redis = getRedis();
+  return redis.get(`${BACKFILL_PREFIX}${accountId}`);
+}
+
+/**
+ * Queue the next chunk of an unfinished backfill (e.g. after a failure).
+ * A backfill whose chain still has a queued or running chunk is left as is.
+ */
+export async function resumeBackfill(operationId: string): Promise<SyncOperation | null> {
+  const operation = await getOperation(operationId);
+  if (!operation || operation.type !== 'backfill' || operation.status === 'completed') {
+    return null;
+  }
+
+  const { getScheduler } = await import('../lib/scheduler');
+  if (getScheduler().hasBackfillTask(operationId)) {
+    logger.info({ accountId: operation.accountId, operationId }, 'Backfill still queued, not resumed');
+    return operation;
+  }
+
+  await scheduleChunk(operation.accountId, operationId);
+  logger.info({ accountId: operation.accountId, operationId }, 'Backfill resumed');
+
+  return operation;
+}
+
+async function scheduleChunk(accountId: string, operationId: string): Promise<void> {
+  const { getScheduler } = await import('../lib/scheduler');
+  await getScheduler().scheduleBackfillChunk(accountId, operationId);
+}
+
+/**
+ * Sync the next unfinished chunk of a backfill. Returns true once every
+ * chunk is complete (or the operation is gone).
+ */
+export async function runBackfillChunk(operationId: string): Promise<boolean> {
+  const operation = await getOperation(operationId);
+  if (!operation || !operation.chunks || operation.status === 'completed') {
+    return true;
+  }
+
+  const { accountId } = operation;
+  const chunks = operation.chunks;
+  const chunk = chunks.find(c => c.status !== 'completed');
+  if (!chunk) {
+    return true;
+  }
+
+  const provider = await getAccountProvider(accountId);
+
+  chunk.status = 'in_progress';
+  await updateOperation(operationId, { status: 'in_progress', chunks });
+
+  try {
+    const result = await withAccountLock(
+      accountId,
+      () => executeSyncWithRetry(provider, accountId, operationId, {
+        fromDate: chunk.resumeFrom || chunk.fromDate,
+        toDate: chunk.toDate,
+        preserveCursor: true,
+        processedOffset: operation.processed,
+      }),
+      { ttl: config.sync.lockTtlSeconds }
+    );
+
+    chunk.processed += result.processed;
+    if (result.complete) {
+      chunk.status = 'completed';
+      chunk.completedAt = new Date().toISOString();
+      delete chunk.resumeFrom;
+    } else {
+      // Hit the per-sync limit: continue this chunk on the next run
+      chunk.status = 'pending';
+      chunk.resumeFrom = result.resumeFrom;
+    }
+
+    const processed = operation.processed + result.processed;
+    const done = chunks.every(c => c.status === 'completed');
+
+    await updateOperation(operationId, {
+      status: done ? 'completed' : 'in_progress',
+      completedAt: done ? new Date().toISOString() : undefined,
+      processed,
+      chunks,
+    });
+
+    logger.info({
+      accountId,
+      operationId,
+      fromDate: chunk.fromDate,
+      toDate: chunk.toDate,
+      processed: result.processed,
+      remaining: chunks.filter(c => c.status !== 'completed').length,
+    }, 'Backfill chunk synced');
+
+    if (done) {
+      await emit('bank.sync.completed', {
+        operationId,
+        accountId,
+        provider: provider.name,
+        syncedAt: new Date().toISOString(),
+        transactionCount: processed,
+        fromDate: chunks[chunks.length - 1].fromDate,
+        toDate: chunks[0].toDate,
+        partial: false,
+        backfill: true,
+      });
+    }
+
+    return done;
+  } catch (err: any) {
+    logger.error({ err, accountId, operationId, chunk }, 'Backfill chunk failed');
+
+    chunk.status = 'failed';
+    await updateOperation(operationId, {
+      status: 'failed',
+      errors: [...operation.errors, `${chunk.fromDate}..${chunk.toDate}: ${err.message || 'Unknown error'}`],
+      chunks,
+    });
+
+    await emit('bank.sync.failed', {
+      operationId,
+      accountId,
+      provider: provider.name,
+      failedAt: new Date().toISOString(),
+      error: err.message || 'Unknown error',
+      retryable: true,
+    });
+
+    // Completed chunks are kept, so a retry picks up at this chunk
+    throw err;
+  }
+}
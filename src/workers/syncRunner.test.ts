@@ -0,0 +1,253 @@
+const getCursor = jest.fn();
+const setCursor = jest.fn();
+let settings = { overlapDays: 3, deepScanDays: 30, deepScanIntervalDays: 0 };
+
+jest.mock('../lib/redis', () => ({ getRedis: () => ({ get: async () => null }) }));
+jest.mock('../lib/cursor', () => ({
+  getCursor: (...args: unknown[]) => getCursor(...args),
+  setCursor: (...args: unknown[]) => setCursor(...args),
+}));
+jest.mock('../lib/accountIdentity', () => ({
+  identifyAccount: async (id: string) => id,
+  getCurrentProviderAccountId: async (id: string) => id,
+}));
+jest.mock('../lib/dedupe', () => ({
+  isDuplicate: async () => false,
+  isProcessed: async () => false,
+  unmarkProcessed: async () => undefined,
+}));
+jest.mock('../lib/events', () => ({ emit: async () => undefined }));
+jest.mock('../lib/repository', () => ({
+  deleteTransaction: async () => undefined,
+  getStoredTransactionStatus: async () => null,
+  saveTransaction: async () => undefined,
+  upsertAccount: async () => undefined,
+}));
+jest.mock('../lib/pending', () => ({
+  findPendingMatch: () => null,
+  getPendingTransactions: async () => new Map(),
+  getSettledTxId: async () => null,
+  recordSettlement: async () => undefined,
+  removePendingTransaction: async () => undefined,
+  savePendingTransaction: async () => undefined,
+}));
+jest.mock('../lib/syncSettings', () => ({
+  getSyncSettings: async () => settings,
+}));
+jest.mock('../lib/tenancy', () => ({ getAccountOwner: async () => null }));
+jest.mock('../lib/notifications', () => ({}));
+jest.mock('../logger', () => ({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+import { config } from '../config';
+import { BankProvider, NormalizedTransaction, ProviderTransactionPage, TransactionRange } from '../lib/provider';
+import { SyncOptions, executeSyncWithRetry } from './syncRunner';
+
+function entry(externalRef: string, bookedAt: string): NormalizedTransaction {
+  return {
+    externalRef,
+    amount: 10,
+    currency: 'EUR',
+    direction: 'out',
+    status: 'booked',
+    bookedAt,
+    description: externalRef,
+    counterparty: {},
+  };
+}
+
+// Serves the given pages and records the ranges it was asked for
+function stubProvider(pages: ProviderTransactionPage<NormalizedTransaction>[]) {
+  const ranges: TransactionRange[] = [];
+  const provider = {
+    name: 'stub',
+    async *listTransactionPages(_accountId: string, range?: TransactionRange) {
+      ranges.push(range || {});
+      yield* pages;
+    },
+    normalizeTransaction: (tx: NormalizedTransaction) => tx,
+  } as unknown as BankProvider<NormalizedTransaction>;
+  return { provider, ranges };
+}
+
+function sync(provider: BankProvider, options: SyncOptions = {}) {
+  return executeSyncWithRetry(provider, 'acc-1', 'op-1', options);
+}
+
+// The last cursor write carrying the given field
+function lastCursorWith(field: string) {
+  const calls = setCursor.mock.calls.filter(([, update]) => field in update);
+  return calls[calls.length - 1]?.[1];
+}
+
+describe('sync resume points', () => {
+  const maxTransactionsPerSync = config.sync.maxTransactionsPerSync;
+
+  beforeAll(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2024-03-31T12:00:00Z'));
+    config.sync.maxTransactionsPerSync = 2;
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+    config.sync.maxTransactionsPerSync = maxTransactionsPerSync;
+  });
+
+  beforeEach(() => {
+    getCursor.mockReset().mockResolvedValue({ sinceISO: '2024-03-20', updatedAt: '2024-03-20T00:00:00Z' });
+    setCursor.mockReset();
+  });
+
+  it('resumes from the first unprocessed booking day on the last page', async () => {
+    const { provider } = stubProvider([{
+      transactions: [entry('c', '2024-03-22'), entry('a', '2024-03-18'), entry('b', '2024-03-20')],
+    }]);
+
+    const result = await sync(provider);
+    expect(result).toMatchObject({ processed: 2, complete: false, resumeFrom: '2024-03-22' });
+    expect(lastCursorWith('resumeFrom')).toEqual({ resumeFrom: '2024-03-22' });
+  });
+
+  it('re-reads the whole window when more pages follow the cut-off', async () => {
+    const { provider } = stubProvider([
+      { transactions: [entry('a', '2024-03-18'), entry('b', '2024-03-20'), entry('c', '2024-03-22')], next: 'page-2' },
+      { transactions: [entry('d', '2024-03-25')] },
+    ]);
+
+    const result = await sync(provider);
+    expect(result).toMatchObject({ complete: false, fromDate: '2024-03-17', resumeFrom: '2024-03-17' });
+  });
+
+  it('starts an incremental sync from the recorded resume point', async () => {
+    getCursor.mockResolvedValue({ sinceISO: '2024-03-20', resumeFrom: '2024-03-10', updatedAt: '2024-03-20T00:00:00Z' });
+    const { provider, ranges } = stubProvider([{ transactions: [entry('a', '2024-03-12')] }]);
+
+    await sync(provider);
+    expect(ranges[0]).toEqual({ fromDate: '2024-03-10', toDate: '2024-03-31' });
+  });
+
+  it('keeps an earlier resume point when an explicit range is cut short', async () => {
+    getCursor.mockResolvedValue({ sinceISO: '2024-03-20', resumeFrom: '2024-03-05', updatedAt: '2024-03-20T00:00:00Z' });
+    const { provider } = stubProvider([{
+      transactions: [entry('a', '2024-03-15'), entry('b', '2024-03-16'), entry('c', '2024-03-18')],
+    }]);
+
+    const result = await sync(provider, { fromDate: '2024-03-14', toDate: '2024-03-31' });
+    expect(result.resumeFrom).toBe('2024-03-18');
+    expect(lastCursorWith('resumeFrom')).toEqual({ resumeFrom: '2024-03-05' });
+  });
+
+  it('does not move the cursor day forward past an explicit range cut-off', async () => {
+    const { provider } = stubProvider([{
+      transactions: [entry('a', '2024-03-01'), entry('b', '2024-03-02'), entry('c', '2024-03-08')],
+    }]);
+
+    await sync(provider, { fromDate: '2024-03-01', toDate: '2024-03-10' });
+    expect(lastCursorWith('resumeFrom')).toEqual({ resumeFrom: '2024-03-08' });
+
+    setCursor.mockReset();
+    getCursor.mockResolvedValue({ sinceISO: '2024-03-20', updatedAt: '2024-03-20T00:00:00Z' });
+    const later = stubProvider([{
+      transactions: [entry('a', '2024-03-25'), entry('b', '2024-03-26'), entry('c', '2024-03-28')],
+    }]);
+    await sync(later.provider, { fromDate: '2024-03-24', toDate: '2024-03-31' });
+    expect(lastCursorWith('resumeFrom')).toEqual({ resumeFrom: '2024-03-20' });
+  });
+
+  it('clears the resume point once a complete sync covers it through today', async () => {
+    getCursor.mockResolvedValue({ sinceISO: '2024-03-20', resumeFrom: '2024-03-10', updatedAt: '2024-03-20T00:00:00Z' });
+    const { provider } = stubProvider([{ transactions: [entry('a', '2024-03-12')] }]);
+
+    const result = await sync(provider);
+    expect(result.complete).toBe(true);
+    expect(lastCursorWith('resumeFrom')).toEqual({ sinceISO: '2024-03-31', resumeFrom: undefined });
+  });
+
+  it('keeps the resume point when a complete range does not reach today', async () => {
+    getCursor.mockResolvedValue({ sinceISO: '2024-03-20', resumeFrom: '2024-03-10', updatedAt: '2024-03-20T00:00:00Z' });
+    const { provider } = stubProvider([{ transactions: [entry('a', '2024-03-12')] }]);
+
+    await sync(provider, { fromDate: '2024-03-01', toDate: '2024-03-15' });
+    expect(lastCursorWith('resumeFrom')).toBeUndefined();
+    expect(lastCursorWith('sinceISO')).toEqual({ sinceISO: '2024-03-20' });
+  });
+
+  it('leaves the cursor alone for backfill chunks', async () => {
+    const { provider } = stubProvider([{
+      transactions: [entry('a', '2024-01-01'), entry('b', '2024-01-02'), entry('c', '2024-01-03')],
+    }]);
+
+    const result = await sync(provider, { fromDate: '2024-01-01', toDate: '2024-01-31', preserveCursor: true });
+    expect(result.resumeFrom).toBe('2024-01-03');
+    expect(setCursor).not.toHaveBeenCalled();
+  });
+});
+
+describe('sync ranges', () => {
+  beforeAll(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2024-03-31T12:00:00Z'));
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    settings = { overlapDays: 3, deepScanDays: 30, deepScanIntervalDays: 7 };
+    getCursor.mockReset().mockResolvedValue({
+      sinceISO: '2024-03-20T00:00:00.000Z',
+      lastDeepScanAt: '2024-03-28T00:00:00.000Z',
+      updatedAt: '2024-03-20T00:00:00Z',
+    });
+    setCursor.mockReset();
+  });
+
+  async function syncedRange(options: SyncOptions = {}) {
+    const { provider, ranges } = stubProvider([{ transactions: [] }]);
+    await sync(provider, options);
+    return ranges[0];
+  }
+
+  it('re-reads the overlap before the cursor', async () => {
+    expect(await syncedRange()).toEqual({ fromDate: '2024-03-17', toDate: '2024-03-31' });
+  });
+
+  it('reads the default lookback on a first sync', async () => {
+    getCursor.mockResolvedValue(null);
+    expect(await syncedRange()).toEqual({ fromDate: '2024-01-01', toDate: '2024-03-31' });
+  });
+
+  it('widens to the deep-scan window once the interval has passed, and records it', async () => {
+    getCursor.mockResolvedValue({
+      sinceISO: '2024-03-20T00:00:00.000Z',
+      lastDeepScanAt: '2024-03-24T00:00:00.000Z',
+      updatedAt: '2024-03-20T00:00:00Z',
+    });
+
+    expect((await syncedRange()).fromDate).toBe('2024-03-01');
+    expect(lastCursorWith('lastDeepScanAt')).toEqual(expect.objectContaining({
+      lastDeepScanAt: '2024-03-31T12:00:00.000Z',
+    }));
+  });
+
+  it('deep-scans on request, but never for explicit ranges', async () => {
+    expect((await syncedRange({ deepScan: true })).fromDate).toBe('2024-03-01');
+    expect(lastCursorWith('lastDeepScanAt')).toBeDefined();
+
+    setCursor.mockReset();
+    expect((await syncedRange({ fromDate: '2024-03-25', deepScan: true })).fromDate).toBe('2024-03-25');
+    expect(lastCursorWith('lastDeepScanAt')).toBeUndefined();
+  });
+
+  it('skips deep scans when disabled', async () => {
+    settings.deepScanIntervalDays = 0;
+    getCursor.mockResolvedValue({ sinceISO: '2024-03-20T00:00:00.000Z', updatedAt: '2024-03-20T00:00:00Z' });
+
+    expect((await syncedRange()).fromDate).toBe('2024-03-17');
+    expect(lastCursorWith('lastDeepScanAt')).toBeUndefined();
+  });
+
+  it('reads back to an earlier requested day without leaving incremental mode', async () => {
+    expect(await syncedRange({ earliestFrom: '2024-03-10' })).toEqual({ fromDate: '2024-03-10', toDate: '2024-03-31' });
+    expect(lastCursorWith('sinceISO')).toEqual({ sinceISO: '2024-03-31' });
+  });
+});
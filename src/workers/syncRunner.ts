@@ -1,10 +1,23 @@
 import { v4 as uuid } from 'uuid';
-import { getCursor, setCursor } from '../lib/cursor';
-import { isDuplicate } from '../lib/dedupe';
+import { getCurrentProviderAccountId, identifyAccount } from '../lib/accountIdentity';
+import { CursorData, getCursor, setCursor } from '../lib/cursor';
+import { isDuplicate, isProcessed, unmarkProcessed } from '../lib/dedupe';
 import { withAccountLock } from '../lib/lock';
 import { emit } from '../lib/events';
-import { getGCClient } from '../lib/gcClient';
+import { BankProvider, getAccountProvider } from '../lib/provider';
 import { getRedis } from '../lib/redis';
+import { deleteTransaction, getStoredTransactionStatus, saveTransaction, upsertAccount } from '../lib/repository';
+import {
+  findPendingMatch,
+  getPendingTransactions,
+  getSettledTxId,
+  recordSettlement,
+  removePendingTransaction,
+  savePendingTransaction,
+} from '../lib/pending';
+import { SyncSettings, getSyncSettings } from '../lib/syncSettings';
+import { getAccountOwner } from '../lib/tenancy';
+import { deriveTxId, fingerprintContent } from '../lib/txid';
 import { logger } from '../logger';
 import { config } from '../config';
 import { BankTransaction, SyncOperation } from '../types';
@@ -16,15 +29,62 @@ const OPERATION_TTL = 7 * 24 * 60 * 60; // 7 days
 export interface SyncOptions {
   fromDate?: string;
   toDate?: string;
+  deepScan?: boolean; // Force a deep re-scan on an incremental sync
+  preserveCursor?: boolean; // Leave the account cursor alone (backfill chunks)
+  earliestFrom?: string; // Read back to at least this day; an incremental sync stays incremental
+  processedOffset?: number; // Processed by earlier runs of the same operation
+}
+
+export interface SyncResult {
+  processed: number;
+  complete: boolean;
+  resumeFrom?: string;
+  fromDate: string;
+  toDate: string;
+}
+
+/**
+ * Create a pending operation record for a sync of an account
+ */
+export async function createOperation(
+  accountId: string,
+  fields: Partial<SyncOperation> = {}
+): Promise<SyncOperation> {
+  const operation: SyncOperation = {
+    operationId: uuid(),
+    accountId,
+    type: 'sync',
+    userId: (await getAccountOwner(accountId)) || undefined,
+    status: 'pending',
+    startedAt: new Date().toISOString(),
+    processed: 0,
+    errors: [],
+    ...fields,
+  };
+
+  const redis = getRedis();
+  await redis.set(
+    `${OPERATION_PREFIX}${operation.operationId}`,
+    JSON.stringify(operation),
+    'EX',
+    OPERATION_TTL
+  );
+
+  return operation;
 }
 
 export async function startSync(
   accountId: string,
   operationId: string,
   options: SyncOptions = {}
-): Promise<void> {
+): Promise<SyncResult> {
   
+  let providerName: string | undefined;
+
   try {
+    const provider = await getAccountProvider(accountId);
+    providerName = provider.name;
+
     // Update operation status
     await updateOperation(operationId, {
       status: 'in_progress',
@@ -32,42 +92,56 @@ export async function startSync(
     });
 
     // Execute sync with lock
-    await withAccountLock(
+    const result = await withAccountLock(
       accountId,
-      async () => {
-        await executeSyncWithRetry(accountId, operationId, options);
-      },
+      () => executeSyncWithRetry(provider, accountId, operationId, options),
       { ttl: config.sync.lockTtlSeconds }
     );
 
-    // Mark as completed
+    // Mark as completed, or partial when the per-sync limit cut it short
     await updateOperation(operationId, {
-      status: 'completed',
+      status: result.complete ? 'completed' : 'partial',
       completedAt: new Date().toISOString(),
+      resumeFrom: result.resumeFrom,
     });
 
     // Emit completion event
-    const operation = await getOperation(operationId);
     await emit('bank.sync.completed', {
       operationId,
       accountId,
-      provider: 'gocardless',
+      provider: provider.name,
       syncedAt: new Date().toISOString(),
-      transactionCount: operation?.processed || 0,
-      fromDate: options.fromDate,
-      toDate: options.toDate,
+      transactionCount: result.processed,
+      fromDate: result.fromDate,
+      toDate: result.toDate,
+      partial: !result.complete,
+      resumeFrom: result.resumeFrom,
     });
 
     // Send notification
     await sendSyncCompleteNotification({
       accountId,
       operationId,
-      transactionCount: operation?.processed || 0,
-      fromDate: options.fromDate,
-      toDate: options.toDate
+      transactionCount: result.processed,
+      fromDate: result.fromDate,
+      toDate: result.toDate
     });
 
-    logger.info({ accountId, operationId }, 'Sync completed successfully');
+    if (!result.complete) {
+      // Continue from the recorded resume point as soon as quota allows; a
+      // sync that left the cursor alone carries its resume point in the task
+      const { getScheduler } = await import('../lib/scheduler');
+      await getScheduler().scheduleTransactionSync(
+        accountId,
+        3,
+        options.preserveCursor ? { ...options, fromDate: result.resumeFrom } : undefined
+      );
+      logger.info({ accountId, operationId, resumeFrom: result.resumeFrom }, 'Sync partial, follow-up scheduled');
+    } else {
+      logger.info({ accountId, operationId }, 'Sync completed successfully');
+    }
+
+    return result;
   } catch (err: any) {
     logger.error({ err, accountId, operationId }, 'Sync failed');
 
@@ -82,7 +156,7 @@ export async function startSync(
     await emit('bank.sync.failed', {
       operationId,
       accountId,
-      provider: 'gocardless',
+      provider: providerName,
       failedAt: new Date().toISOString(),
       error: err.message || 'Unknown error',
       retryable: true,
@@ -100,18 +174,18 @@ export async function startSync(
   }
 }
 
-async function executeSyncWithRetry(
+export async function executeSyncWithRetry(
+  provider: BankProvider,
   accountId: string,
   operationId: string,
   options: SyncOptions
-): Promise<void> {
+): Promise<SyncResult> {
   const maxRetries = 3;
   let lastError: Error | null = null;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      await executeSync(accountId, operationId, options);
-      return;
+      return await executeSync(provider, accountId, operationId, options);
     } catch (err: any) {
       lastError = err;
       logger.warn({ 
@@ -132,36 +206,66 @@ async function executeSyncWithRetry(
 }
 
 async function executeSync(
-  accountId: string,
+  provider: BankProvider,
+  requestedAccountId: string,
   operationId: string,
   options: SyncOptions
-): Promise<void> {
-  const gcClient = getGCClient();
+): Promise<SyncResult> {
+  // State and history live under the internal ID, which survives re-links;
+  // the provider is asked under the ID it currently knows the account by
+  const accountId = await identifyAccount(requestedAccountId);
+  const providerAccountId = await getCurrentProviderAccountId(accountId);
+  
   const cursor = await getCursor(accountId);
+  const today = new Date().toISOString().split('T')[0];
+  const incremental = !options.fromDate;
+  const settings = await getSyncSettings(accountId);
+  const deepScan = incremental && (options.deepScan || isDeepScanDue(cursor, settings));
   
-  // Determine date range
-  const fromDate = options.fromDate || 
-    cursor?.sinceISO?.split('T')[0] ||
-    new Date(Date.now() - config.sync.defaultLookbackDays * 24 * 60 * 60 * 1000)
-      .toISOString().split('T')[0];
+  // Determine date range (an unfinished sync resumes where it stopped;
+  // otherwise re-read an overlap before the cursor for late bookings)
+  let fromDate = options.fromDate || 
+    cursor?.resumeFrom ||
+    (cursor?.sinceISO && shiftDate(cursor.sinceISO.split('T')[0], -settings.overlapDays)) ||
+    shiftDate(today, -config.sync.defaultLookbackDays);
+
+  if (deepScan) {
+    fromDate = [fromDate, shiftDate(today, -settings.deepScanDays)].sort()[0];
+  }
+  if (options.earliestFrom) {
+    fromDate = [fromDate, options.earliestFrom].sort()[0];
+  }
   
-  const toDate = options.toDate || 
-    new Date().toISOString().split('T')[0];
+  const toDate = options.toDate || today;
 
   logger.info({ 
     accountId, 
+    providerAccountId,
     operationId, 
+    provider: provider.name,
     fromDate, 
     toDate,
-    cursor: cursor?.cursor 
+    resumeFrom: cursor?.resumeFrom,
+    deepScan,
   }, 'Starting sync');
 
+  await upsertAccount({
+    accountId,
+    provider: provider.name,
+    userId: (await getAccountOwner(accountId)) || undefined,
+  });
+
+  const processedOffset = options.processedOffset || 0;
   let processed = 0;
+  let resumeFrom: string | undefined;
+  const pending = await getPendingTransactions(accountId);
+  const seenTxIds = new Set<string>();
+  const occurrences = new Map<string, number>();
 
   // Iterate through transaction pages (GoCardless returns all in one call)
-  for await (const page of gcClient.listTransactionPages(accountId, {
-    date_from: fromDate,
-    date_to: toDate,
+  for await (const page of provider.listTransactionPages(providerAccountId, {
+    fromDate,
+    toDate,
   })) {
     logger.debug({ 
       accountId, 
@@ -169,86 +273,196 @@ async function executeSync(
       next: page.next 
     }, 'Processing transaction page');
 
+    // Oldest first, so a cut-off leaves a single resume date behind it
+    const entries = page.transactions
+      .map(rawTx => provider.normalizeTransaction(rawTx))
+      .sort((a, b) => a.bookedAt.localeCompare(b.bookedAt));
+
     // Process transactions
-    for (const gcTx of page.transactions) {
-      const normalized = gcClient.normalizeTransaction(gcTx);
-      
-      // Check for duplicate
-      const isDupe = await isDuplicate(normalized.externalRef);
-      if (isDupe) {
-        logger.debug({ externalRef: normalized.externalRef }, 'Skipping duplicate');
-        continue;
+    for (const normalized of entries) {
+      // Check max transactions limit
+      if (processed >= config.sync.maxTransactionsPerSync) {
+        // Without more pages the cut-off date is exact; otherwise re-read
+        // the whole window and let dedupe skip what was already emitted
+        resumeFrom = page.next ? fromDate : normalized.bookedAt.split('T')[0];
+        logger.warn({ 
+          accountId, 
+          processed, 
+          max: config.sync.maxTransactionsPerSync,
+          resumeFrom,
+        }, 'Max transactions reached');
+        break;
       }
 
+      // Identical entries without a bank ID are told apart by position
+      const content = fingerprintContent(normalized);
+      const occurrence = occurrences.get(content) || 0;
+      occurrences.set(content, occurrence + 1);
+
       // Create bank transaction
       const bankTx: BankTransaction = {
-        txId: uuid(),
+        txId: deriveTxId(provider.name, accountId, normalized, occurrence),
         externalRef: normalized.externalRef,
         accountId,
         source: 'bank',
-        provider: config.gocardless.provider,
-        asset: gcTx.transactionAmount.currency,
+        provider: provider.name,
+        asset: normalized.currency,
         amount: normalized.amount,
         fee: 0,
         direction: normalized.direction,
-        bookedAt: gcTx.bookingDate,
-        valueDate: gcTx.valueDate,
+        status: normalized.status,
+        bookedAt: normalized.bookedAt,
+        valueDate: normalized.valueDate,
         description: normalized.description,
+        reference: normalized.reference,
         counterparty: normalized.counterparty,
-        metadata: {
-          bankTransactionCode: gcTx.bankTransactionCode,
-          proprietaryCode: gcTx.proprietaryBankTransactionCode,
-        },
+        ...normalized.details,
+        metadata: normalized.metadata,
       };
 
-      // Emit transaction event
-      await emit('bank.tx.created', bankTx);
+      seenTxIds.add(bankTx.txId);
+
+      // Pending entries are deduped separately so their booked counterpart
+      // is not mistaken for a duplicate when the bank reuses the reference
+      const dedupeRef = bankTx.status === 'pending' ? `pending:${bankTx.txId}` : bankTx.txId;
+      
+      // Check for duplicate (dedupe keys used to be the bank reference;
+      // honour those until they expire)
+      const isDupe = await isDuplicate(dedupeRef) ||
+        (bankTx.status === 'booked' && !!normalized.externalRef && await isProcessed(normalized.externalRef));
+      if (isDupe) {
+        logger.debug({ externalRef: normalized.externalRef }, 'Skipping duplicate');
+        continue;
+      }
+
+      // Dedupe keys expire and are lost with Redis: the stored row (under the
+      // pending txId it settled, for a booked entry) is the lasting record
+      if (await isAlreadyStored(bankTx)) {
+        logger.debug({ txId: bankTx.txId, externalRef: normalized.externalRef }, 'Skipping stored transaction');
+        continue;
+      }
+
+      // A booked transaction may settle a pending entry we already emitted
+      const derivedTxId = bankTx.txId;
+      const match = bankTx.status === 'booked' ? findPendingMatch(bankTx, pending) : null;
+      if (match) {
+        bankTx.txId = match.txId;
+      }
+
+      // Persist before emitting so history survives stream trimming
+      try {
+        await saveTransaction(bankTx);
+      } catch (err) {
+        // Let the retry pick this transaction up again
+        await unmarkProcessed(dedupeRef);
+        throw err;
+      }
+
+      if (match) {
+        await emit('bank.tx.updated', {
+          ...bankTx,
+          previousStatus: 'pending',
+          previousExternalRef: match.externalRef,
+        });
+        if (derivedTxId !== match.txId) {
+          await recordSettlement(accountId, derivedTxId, match.txId);
+        }
+        await removePendingTransaction(accountId, match.txId);
+        pending.delete(match.txId);
+        logger.debug({ txId: bankTx.txId, accountId }, 'Pending transaction settled');
+      } else {
+        if (bankTx.status === 'pending') {
+          await savePendingTransaction(bankTx);
+          pending.set(bankTx.txId, bankTx);
+        }
+
+        // Emit transaction event
+        await emit('bank.tx.created', bankTx);
+      }
       processed++;
 
       // Update operation progress
       if (processed % 10 === 0) {
-        await updateOperation(operationId, { processed });
+        await updateOperation(operationId, { processed: processedOffset + processed });
       }
     }
 
-    // Update cursor (GoCardless doesn't use cursor for transactions)
-    if (page.transactions.length > 0) {
-      const lastTx = page.transactions[page.transactions.length - 1];
+    // Remember the last reference seen (GoCardless doesn't use cursor for transactions)
+    if (entries.length > 0 && !options.preserveCursor) {
       await setCursor(accountId, {
-        sinceISO: toDate,
-        lastTxnRef: lastTx.transactionId,
+        lastTxnRef: entries[entries.length - 1].externalRef,
       });
     }
 
-    // Check max transactions limit
-    if (processed >= config.sync.maxTransactionsPerSync) {
-      logger.warn({ 
-        accountId, 
-        processed, 
-        max: config.sync.maxTransactionsPerSync 
-      }, 'Max transactions reached');
-      break;
-    }
+    if (resumeFrom) break;
   }
 
-  // Final cursor update
-  await setCursor(accountId, {
-    sinceISO: toDate,
-  });
+  if (resumeFrom) {
+    // Backfill chunks track their own resume point; explicit ranges must
+    // not move an earlier resume point forward
+    if (!options.preserveCursor) {
+      const earliest = incremental
+        ? resumeFrom
+        : [resumeFrom, cursor?.resumeFrom || cursor?.sinceISO?.split('T')[0] || resumeFrom].sort()[0];
+
+      await setCursor(accountId, { resumeFrom: earliest });
+    }
+  } else {
+    // Pending entries inside a fully read window that the bank no longer
+    // reports were dropped (e.g. released card holds)
+    for (const tx of pending.values()) {
+      const bookedDay = tx.bookedAt.split('T')[0];
+      if (seenTxIds.has(tx.txId) || bookedDay < fromDate || bookedDay > toDate) continue;
+
+      await deleteTransaction(tx.txId);
+      await removePendingTransaction(accountId, tx.txId);
+      await unmarkProcessed(`pending:${tx.txId}`);
+      await emit('bank.tx.removed', {
+        txId: tx.txId,
+        externalRef: tx.externalRef,
+        accountId,
+        provider: provider.name,
+        removedAt: new Date().toISOString(),
+        reason: 'pending_dropped',
+        transaction: tx,
+      });
+      logger.debug({ txId: tx.txId, accountId }, 'Pending transaction removed');
+    }
+
+    // Advance the cursor, never backwards; clear a resume point this run covered
+    if (!options.preserveCursor) {
+      const sinceDate = cursor?.sinceISO?.split('T')[0];
+      const coversResume = !!cursor?.resumeFrom && fromDate <= cursor.resumeFrom && toDate >= today;
+      await setCursor(accountId, {
+        sinceISO: !sinceDate || toDate >= sinceDate ? toDate : cursor!.sinceISO,
+        ...(coversResume ? { resumeFrom: undefined } : {}),
+        ...(deepScan ? { lastDeepScanAt: new Date().toISOString() } : {}),
+      });
+    }
+  }
 
   // Final operation update
   await updateOperation(operationId, { 
-    processed,
+    processed: processedOffset + processed,
   });
 
   logger.info({ 
     accountId, 
     operationId, 
-    processed 
+    processed,
+    complete: !resumeFrom,
   }, 'Sync execution completed');
+
+  return {
+    processed,
+    complete: !resumeFrom,
+    resumeFrom,
+    fromDate,
+    toDate,
+  };
 }
 
-async function updateOperation(
+export async function updateOperation(
   operationId: string,
   updates: Partial<SyncOperation>
 ): Promise<void> {
@@ -268,7 +482,34 @@ async function updateOperation(
   }
 }
 
-async function getOperation(operationId: string): Promise<SyncOperation | null> {
+/**
+ * Whether a transaction was already ingested: it settled a pending entry
+ * before, or is stored in the same status (or already booked). Only a booked
+ * entry settling a stored pending one gets through.
+ */
+async function isAlreadyStored(tx: BankTransaction): Promise<boolean> {
+  if (tx.status === 'booked' && await getSettledTxId(tx.accountId, tx.txId)) return true;
+
+  const stored = await getStoredTransactionStatus(tx.txId);
+  return stored !== null && (stored === 'booked' || tx.status === 'pending');
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+function isDeepScanDue(cursor: CursorData | null, settings: SyncSettings): boolean {
+  // First syncs already read the full lookback window
+  if (!cursor?.sinceISO || settings.deepScanIntervalDays <= 0) return false;
+  if (!cursor.lastDeepScanAt) return true;
+
+  const elapsed = Date.now() - Date.parse(cursor.lastDeepScanAt);
+  return elapsed >= settings.deepScanIntervalDays * 24 * 60 * 60 * 1000;
+}
+
+export async function getOperation(operationId: string): Promise<SyncOperation | null> {
   const redis = getRedis();
   const key = `${OPERATION_PREFIX}${operationId}`;
   
@@ -0,0 +1,192 @@
+const strings = new Map<string, string>();
+const sortedSets = new Map<string, Map<string, number>>();
+const lists = new Map<string, string[]>();
+
+function sortedSet(key: string): Map<string, number> {
+  if (!sortedSets.has(key)) sortedSets.set(key, new Map());
+  return sortedSets.get(key)!;
+}
+
+function list(key: string): string[] {
+  if (!lists.has(key)) lists.set(key, []);
+  return lists.get(key)!;
+}
+
+// Just the commands the worker uses
+const fakeRedis = {
+  get: async (key: string) => strings.get(key) ?? null,
+  set: async (key: string, value: string, ...args: unknown[]) => {
+    if (args.includes('NX') && strings.has(key)) return null;
+    strings.set(key, value);
+    return 'OK';
+  },
+  setex: async (key: string, _ttl: number, value: string) => {
+    strings.set(key, value);
+    return 'OK';
+  },
+  del: async (key: string) => Number(strings.delete(key)),
+  zadd: async (key: string, score: number, member: string) => {
+    sortedSet(key).set(member, score);
+    return 1;
+  },
+  zrem: async (key: string, member: string) => Number(sortedSet(key).delete(member)),
+  zrangebyscore: async (key: string, min: number, max: number) =>
+    [...sortedSet(key)].filter(([, score]) => score >= min && score <= max)
+      .sort((a, b) => a[1] - b[1])
+      .map(([member]) => member),
+  zremrangebyscore: async () => 0,
+  zrevrange: async (key: string) =>
+    [...sortedSet(key)].sort((a, b) => b[1] - a[1]).map(([member]) => member),
+  lpush: async (key: string, value: string) => list(key).unshift(value),
+  lrem: async (key: string, _count: number, value: string) => {
+    lists.set(key, list(key).filter(entry => entry !== value));
+    return 1;
+  },
+  lrange: async (key: string) => [...list(key)],
+};
+
+const emit = jest.fn();
+const scheduleTransactionSync = jest.fn();
+
+jest.mock('../lib/redis', () => ({ getRedis: () => fakeRedis }));
+jest.mock('../lib/events', () => ({ emit: (...args: unknown[]) => emit(...args) }));
+jest.mock('../lib/provider', () => ({ getAccountProviderName: async () => 'gocardless' }));
+jest.mock('../lib/accountIdentity', () => ({ resolveAccountId: async (id: string) => id }));
+jest.mock('../lib/requisition', () => ({}));
+jest.mock('../lib/requisitionLifecycle', () => ({}));
+jest.mock('../lib/scheduler', () => ({
+  getScheduler: () => ({ scheduleTransactionSync: (...args: unknown[]) => scheduleTransactionSync(...args) }),
+}));
+jest.mock('../lib/syncSettings', () => ({ getSyncSettings: async () => ({ overlapDays: 3 }) }));
+jest.mock('./backfillRunner', () => ({}));
+
+import { config } from '../config';
+import { WebhookEvent } from '../lib/gcClient';
+import {
+  enqueueWebhookEvent,
+  getWebhookEvent,
+  listWebhookEvents,
+  processDueWebhookEvents,
+  redriveWebhookEvent,
+} from './webhookWorker';
+
+function accountEvent(id: string): WebhookEvent {
+  return {
+    id,
+    created_at: '2024-03-01T10:00:00Z',
+    resource_type: 'account',
+    action: 'updated',
+    links: { account: 'acc-1' },
+  };
+}
+
+function transactionEvent(id: string, bookingDate?: string): WebhookEvent {
+  return {
+    id,
+    created_at: '2024-03-01T10:00:00Z',
+    resource_type: 'transaction',
+    action: 'created',
+    links: { account: 'acc-1', transaction: 'tx-1' },
+    details: bookingDate ? { booking_date: bookingDate } : undefined,
+  };
+}
+
+describe('webhook worker', () => {
+  const start = new Date('2024-03-01T10:00:00Z').getTime();
+
+  beforeEach(() => {
+    strings.clear();
+    sortedSets.clear();
+    lists.clear();
+    emit.mockReset();
+    scheduleTransactionSync.mockReset();
+    config.webhooks.maxAttempts = 3;
+    config.webhooks.retryBaseSeconds = 30;
+    jest.useFakeTimers().setSystemTime(start);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('processes a queued event once', async () => {
+    await enqueueWebhookEvent(accountEvent('ev-1'));
+
+    await processDueWebhookEvents();
+    await processDueWebhookEvents();
+
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith('bank.account.updated', expect.objectContaining({ accountId: 'acc-1' }));
+    expect(await getWebhookEvent('ev-1')).toMatchObject({ status: 'processed', attempts: 1 });
+  });
+
+  it('retries a failed event with exponential backoff', async () => {
+    emit.mockRejectedValue(new Error('bus down'));
+    await enqueueWebhookEvent(accountEvent('ev-1'));
+
+    await processDueWebhookEvents();
+    expect(await getWebhookEvent('ev-1')).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'bus down',
+      nextAttemptAt: new Date(start + 30_000).toISOString(),
+    });
+
+    // Not due yet
+    await processDueWebhookEvents();
+    expect(emit).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(start + 30_000);
+    await processDueWebhookEvents();
+    expect(await getWebhookEvent('ev-1')).toMatchObject({
+      attempts: 2,
+      nextAttemptAt: new Date(start + 30_000 + 60_000).toISOString(),
+    });
+  });
+
+  it('dead-letters an event after the last attempt and re-drives it', async () => {
+    emit.mockRejectedValue(new Error('bus down'));
+    await enqueueWebhookEvent(accountEvent('ev-1'));
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      jest.setSystemTime(start + attempt * 10 * 60_000);
+      await processDueWebhookEvents();
+    }
+
+    expect(await getWebhookEvent('ev-1')).toMatchObject({ status: 'dead', attempts: 3 });
+    expect((await listWebhookEvents({ status: 'dead' })).map(record => record.id)).toEqual(['ev-1']);
+
+    jest.setSystemTime(start + 60 * 60_000);
+    await processDueWebhookEvents();
+    expect(emit).toHaveBeenCalledTimes(3);
+
+    emit.mockResolvedValue(undefined);
+    expect(await redriveWebhookEvent('ev-1')).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(await listWebhookEvents({ status: 'dead' })).toEqual([]);
+
+    await processDueWebhookEvents();
+    expect(await getWebhookEvent('ev-1')).toMatchObject({ status: 'processed', attempts: 1 });
+  });
+
+  it('queues a ranged sync from the booking date minus the overlap', async () => {
+    await enqueueWebhookEvent(transactionEvent('ev-1', '2024-02-20'));
+    await processDueWebhookEvents();
+
+    expect(scheduleTransactionSync).toHaveBeenCalledWith('acc-1', 1, {
+      fromDate: '2024-02-17',
+      toDate: '2024-03-01',
+      preserveCursor: true,
+    });
+  });
+
+  it('anchors the range on today for missing or future booking dates', async () => {
+    await enqueueWebhookEvent(transactionEvent('ev-1', '2024-03-05'));
+    await enqueueWebhookEvent(transactionEvent('ev-2', 'not-a-date'));
+    await processDueWebhookEvents();
+
+    expect(scheduleTransactionSync.mock.calls.map(([, , options]) => options)).toEqual([
+      { fromDate: '2024-02-27', toDate: '2024-03-01', preserveCursor: true },
+      { fromDate: '2024-02-27', toDate: '2024-03-01', preserveCursor: true },
+    ]);
+  });
+});
@@ -0,0 +1,351 @@
+import { resolveAccountId } from '../lib/accountIdentity';
+import { emit } from '../lib/events';
+import { WebhookEvent } from '../lib/gcClient';
+import { getAccountProviderName } from '../lib/provider';
+import { getRedis } from '../lib/redis';
+import { getRequisitionManager } from '../lib/requisition';
+import { observeRequisition } from '../lib/requisitionLifecycle';
+import { getScheduler } from '../lib/scheduler';
+import { getSyncSettings } from '../lib/syncSettings';
+import { logger } from '../logger';
+import { config } from '../config';
+import { queueInitialSync } from './backfillRunner';
+
+const EVENT_PREFIX = 'gc:webhook:event:';
+const EVENT_INDEX = 'gc:webhook:events'; // Received events by receive time
+const EVENT_QUEUE = 'gc:webhook:queue'; // Events to process by next attempt time
+const DEAD_LETTER = 'gc:webhook:dead';
+const LEASE_PREFIX = 'gc:webhook:lease:';
+const EVENT_TTL = 7 * 24 * 60 * 60; // 7 days, same as operations
+const LEASE_TTL = 5 * 60; // An event whose worker died is retried after this
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 10;
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'dead';
+
+export interface WebhookEventRecord {
+  id: string;
+  event: WebhookEvent;
+  status: WebhookEventStatus;
+  attempts: number;
+  receivedAt: string;
+  nextAttemptAt?: string;
+  processedAt?: string;
+  lastError?: string;
+}
+
+let intervalId: NodeJS.Timeout | undefined;
+let polling = false;
+
+async function saveRecord(record: WebhookEventRecord): Promise<void> {
+  const redis = getRedis();
+  const key = `${EVENT_PREFIX}${record.id}`;
+
+  if (record.status === 'dead') {
+    // Dead letters are kept until re-driven
+    await redis.set(key, JSON.stringify(record));
+  } else {
+    await redis.setex(key, EVENT_TTL, JSON.stringify(record));
+  }
+}
+
+export async function getWebhookEvent(eventId: string): Promise<WebhookEventRecord | null> {
+  const redis = getRedis();
+  const data = await redis.get(`${EVENT_PREFIX}${eventId}`);
+  return data ? JSON.parse(data) as WebhookEventRecord : null;
+}
+
+/**
+ * Persist a received event and queue it for the worker
+ */
+export async function enqueueWebhookEvent(event: WebhookEvent): Promise<WebhookEventRecord> {
+  const redis = getRedis();
+  const now = Date.now();
+
+  const record: WebhookEventRecord = {
+    id: event.id,
+    event,
+    status: 'pending',
+    attempts: 0,
+    receivedAt: new Date(now).toISOString(),
+    nextAttemptAt: new Date(now).toISOString(),
+  };
+
+  await saveRecord(record);
+  await redis.zadd(EVENT_INDEX, now, record.id);
+  await redis.zremrangebyscore(EVENT_INDEX, 0, now - EVENT_TTL * 1000);
+  await redis.zadd(EVENT_QUEUE, now, record.id);
+
+  return record;
+}
+
+/**
+ * Recently received events, newest first. Dead letters are read from the
+ * dead-letter list so they show up however old they are.
+ */
+export async function listWebhookEvents(
+  options: { status?: WebhookEventStatus; limit?: number } = {}
+): Promise<WebhookEventRecord[]> {
+  const redis = getRedis();
+  const limit = options.limit || 50;
+
+  const ids = options.status === 'dead'
+    ? await redis.lrange(DEAD_LETTER, 0, limit - 1)
+    : await redis.zrevrange(EVENT_INDEX, 0, options.status ? -1 : limit - 1);
+
+  const records = await Promise.all(ids.map(id => getWebhookEvent(id)));
+
+  return records
+    .filter((record): record is WebhookEventRecord => record !== null)
+    .filter(record => !options.status || record.status === options.status)
+    .slice(0, limit);
+}
+
+/**
+ * Queue an event again with a fresh attempt budget (e.g. a dead letter
+ * after the cause was fixed)
+ */
+export async function redriveWebhookEvent(eventId: string): Promise<WebhookEventRecord | null> {
+  const record = await getWebhookEvent(eventId);
+  if (!record) return null;
+
+  const redis = getRedis();
+  const now = Date.now();
+
+  record.status = 'pending';
+  record.attempts = 0;
+  record.nextAttemptAt = new Date(now).toISOString();
+  delete record.processedAt;
+
+  await saveRecord(record);
+  await redis.lrem(DEAD_LETTER, 0, eventId);
+  await redis.zadd(EVENT_QUEUE, now, eventId);
+
+  logger.info({ eventId }, 'Webhook event re-driven');
+
+  return record;
+}
+
+/**
+ * Re-drive every dead-lettered event
+ */
+export async function redriveDeadWebhookEvents(): Promise<WebhookEventRecord[]> {
+  const redis = getRedis();
+  const ids = await redis.lrange(DEAD_LETTER, 0, -1);
+  const records = await Promise.all(ids.map(id => redriveWebhookEvent(id)));
+
+  return records.filter((record): record is WebhookEventRecord => record !== null);
+}
+
+export async function startWebhookWorker(): Promise<void> {
+  if (intervalId) {
+    logger.warn('Webhook worker already running');
+    return;
+  }
+
+  intervalId = setInterval(async () => {
+    try {
+      await processDueWebhookEvents();
+    } catch (err) {
+      logger.error({ err }, 'Error processing webhook events');
+    }
+  }, POLL_INTERVAL_MS);
+
+  logger.info('Webhook worker started');
+}
+
+export async function stopWebhookWorker(): Promise<void> {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = undefined;
+  }
+  logger.info('Webhook worker stopped');
+}
+
+/**
+ * Process queued events whose next attempt is due
+ */
+export async function processDueWebhookEvents(): Promise<void> {
+  // Skip a tick while the previous one is still working
+  if (polling) return;
+  polling = true;
+
+  try {
+    const redis = getRedis();
+    const ids = await redis.zrangebyscore(EVENT_QUEUE, 0, Date.now(), 'LIMIT', 0, BATCH_SIZE);
+
+    for (const id of ids) {
+      // Events stay queued while processed; the lease keeps other workers off
+      const leased = await redis.set(`${LEASE_PREFIX}${id}`, '1', 'EX', LEASE_TTL, 'NX');
+      if (leased === null) continue;
+
+      try {
+        await processQueuedEvent(id);
+      } finally {
+        await redis.del(`${LEASE_PREFIX}${id}`);
+      }
+    }
+  } finally {
+    polling = false;
+  }
+}
+
+async function processQueuedEvent(eventId: string): Promise<void> {
+  const redis = getRedis();
+  const record = await getWebhookEvent(eventId);
+
+  if (!record) {
+    logger.warn({ eventId }, 'Queued webhook event expired');
+    await redis.zrem(EVENT_QUEUE, eventId);
+    return;
+  }
+
+  record.status = 'processing';
+  record.attempts++;
+  await saveRecord(record);
+
+  try {
+    await processWebhookEvent(record.event);
+
+    record.status = 'processed';
+    record.processedAt = new Date().toISOString();
+    delete record.nextAttemptAt;
+    delete record.lastError;
+    await saveRecord(record);
+    await redis.zrem(EVENT_QUEUE, eventId);
+  } catch (err: any) {
+    record.lastError = err.message || 'Unknown error';
+
+    if (record.attempts >= config.webhooks.maxAttempts) {
+      record.status = 'dead';
+      delete record.nextAttemptAt;
+      await saveRecord(record);
+      await redis.zrem(EVENT_QUEUE, eventId);
+      await redis.lpush(DEAD_LETTER, eventId);
+
+      logger.error({ eventId, attempts: record.attempts, error: record.lastError }, 'Webhook event dead-lettered');
+      return;
+    }
+
+    // Exponential backoff
+    const delay = config.webhooks.retryBaseSeconds * 1000 * Math.pow(2, record.attempts - 1);
+    const nextAttempt = Date.now() + delay;
+
+    record.status = 'pending';
+    record.nextAttemptAt = new Date(nextAttempt).toISOString();
+    await saveRecord(record);
+    await redis.zadd(EVENT_QUEUE, nextAttempt, eventId);
+
+    logger.warn({
+      eventId,
+      attempts: record.attempts,
+      nextAttemptAt: record.nextAttemptAt,
+      error: record.lastError,
+    }, 'Webhook event failed, retrying later');
+  }
+}
+
+async function processWebhookEvent(event: WebhookEvent): Promise<void> {
+  logger.info({ 
+    eventId: event.id,
+    resourceType: event.resource_type,
+    action: event.action
+  }, 'Processing webhook event');
+
+  try {
+    switch (event.resource_type) {
+      case 'requisition':
+        await handleRequisitionEvent(event);
+        break;
+      case 'account':
+        await handleAccountEvent(event);
+        break;
+      case 'transaction':
+        await handleTransactionEvent(event);
+        break;
+      default:
+        logger.debug({ resourceType: event.resource_type }, 'Unknown resource type');
+    }
+  } catch (err) {
+    logger.error({ err, eventId: event.id }, 'Failed to process webhook event');
+    throw err;
+  }
+}
+
+async function handleRequisitionEvent(event: WebhookEvent): Promise<void> {
+  // Handle requisition events (account linking, etc.)
+  const requisitionId = event.links?.requisition;
+  if (!requisitionId) {
+    logger.warn({ eventId: event.id }, 'Requisition event without requisition link');
+    return;
+  }
+
+  // Any requisition event may be a status change (expired, suspended, ...)
+  const requisition = await getRequisitionManager().getRequisition(requisitionId, { refresh: true });
+  if (requisition) {
+    await observeRequisition(requisition);
+  }
+
+  if (event.action === 'created' || event.action === 'linked') {
+    if (!requisition || requisition.status !== 'LN') {
+      logger.info({ requisitionId, status: requisition?.status }, 'Requisition not linked yet');
+      return;
+    }
+
+    await queueInitialSync(requisition);
+  }
+}
+
+async function handleAccountEvent(event: WebhookEvent): Promise<void> {
+  // Handle account events
+  if (event.action === 'updated') {
+    const accountId = event.links?.account;
+    if (accountId) {
+      await emit('bank.account.updated', {
+        accountId,
+        provider: await getAccountProviderName(accountId),
+        updatedAt: event.created_at,
+      });
+    }
+  }
+}
+
+async function handleTransactionEvent(event: WebhookEvent): Promise<void> {
+  // Handle transaction events
+  if (event.action === 'created') {
+    const transactionId = event.links?.transaction;
+    const accountId = event.links?.account;
+    
+    if (transactionId && accountId) {
+      // Re-read a narrow window around the transaction; the sync pipeline
+      // dedupes it and emits bank.tx.created
+      const { fromDate, toDate } = await transactionWindow(accountId, event);
+      await getScheduler().scheduleTransactionSync(accountId, 1, {
+        fromDate,
+        toDate,
+        preserveCursor: true,
+      });
+
+      logger.info({ transactionId, accountId, fromDate, toDate }, 'New transaction via webhook, sync queued');
+    }
+  }
+}
+
+/**
+ * Sync window for a transaction webhook: from the booking date (or event
+ * date) minus the account's overlap, up to today
+ */
+async function transactionWindow(
+  accountId: string,
+  event: WebhookEvent
+): Promise<{ fromDate: string; toDate: string }> {
+  const toDate = new Date().toISOString().split('T')[0];
+  const eventDate = String(event.details?.booking_date || event.created_at || '').split('T')[0];
+  const anchor = /^\d{4}-\d{2}-\d{2}$/.test(eventDate) && eventDate < toDate ? eventDate : toDate;
+
+  const { overlapDays } = await getSyncSettings(await resolveAccountId(accountId));
+  const from = new Date(`${anchor}T00:00:00Z`);
+  from.setUTCDate(from.getUTCDate() - overlapDays);
+
+  return { fromDate: from.toISOString().split('T')[0], toDate };
+}